@@ -0,0 +1,130 @@
+import path from 'path';
+import { config, Config, initializeEnvironment } from './config';
+import { mergeConfig, resolveVideoConfig, validateConfig } from './configFile';
+import { transcribeVideo, TranscriptionResult, TranscriptionStage } from './pipeline';
+import { prepareWhisper } from './whisper';
+import { WhisperPool, createWhisperPool } from './whisperPool';
+
+// Settings for a transcription, on top of the active configuration
+export type TranscribeOptions = Partial<Omit<Config, 'formats'>> & {
+  formats?: Partial<Config['formats']>;
+  onStage?: (stage: TranscriptionStage) => void; // Called when a step of the transcription starts
+  pool?: WhisperPool; // Run whisper.cpp in this pool, shared with other transcriptions
+};
+
+export interface BatchProgress {
+  completed: number; // Files finished, successfully or not
+  failed: number;
+  total: number;
+}
+
+export type TranscribeEvent =
+  | { type: 'start'; file: string }
+  | { type: 'done'; file: string; result: TranscriptionResult }
+  | { type: 'error'; file: string; error: Error };
+
+export interface TranscribeBatchOptions extends TranscribeOptions {
+  onEvent?: (event: TranscribeEvent) => void;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchFailure {
+  file: string;
+  error: Error;
+}
+
+export interface BatchResult {
+  results: TranscriptionResult[]; // In the order the files were given, failed files left out
+  failures: BatchFailure[];
+}
+
+/**
+ * Merge options into the active configuration and check the result
+ * @throws ConfigError if an option is invalid
+ */
+function resolveOptions(options: TranscribeOptions): Config {
+  const { onEvent, onProgress, onStage, pool, ...settings } = options as TranscribeBatchOptions;
+  const resolved = mergeConfig(config, settings as Partial<Config>);
+  validateConfig(resolved, 'the transcribe options');
+  return resolved;
+}
+
+/**
+ * Transcribe a single video or audio file
+ * Per-folder override files apply as in batch runs; the manifest and job queue are not used.
+ * @param file Path to the media file
+ * @param options Settings overriding the active configuration
+ * @returns The transcript segments and the paths of the files written
+ */
+export async function transcribe(file: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+  const baseConfig = resolveOptions(options);
+  initializeEnvironment(baseConfig);
+
+  const videoPath = path.resolve(file);
+  const videoConfig = await resolveVideoConfig(videoPath, baseConfig);
+  return transcribeVideo(videoPath, videoConfig, options.onStage, options.pool);
+}
+
+/**
+ * Transcribe several files, up to maxConcurrentProcesses at a time
+ * As in CLI batches, whisper.cpp runs in a pool of that size, with the configured timeout,
+ * unless options.pool is given.
+ * A failing file does not stop the batch, it is reported in the result and through onEvent.
+ * @param files Paths to the media files
+ * @param options Settings overriding the active configuration, plus event callbacks
+ */
+export async function transcribeBatch(files: string[], options: TranscribeBatchOptions = {}): Promise<BatchResult> {
+  const baseConfig = resolveOptions(options);
+  initializeEnvironment(baseConfig);
+
+  const { onEvent, onProgress } = options;
+  const videoPaths = Array.from(new Set(files.map(file => path.resolve(file))));
+  const results: (TranscriptionResult | undefined)[] = new Array(videoPaths.length);
+  const failures: BatchFailure[] = [];
+  let nextIndex = 0;
+  let completed = 0;
+
+  async function runNext(): Promise<void> {
+    while (nextIndex < videoPaths.length) {
+      const index = nextIndex++;
+      const file = videoPaths[index];
+      onEvent?.({ type: 'start', file });
+
+      try {
+        const videoConfig = await resolveVideoConfig(file, baseConfig);
+        const result = await transcribeVideo(file, videoConfig, undefined, pool);
+        results[index] = result;
+        onEvent?.({ type: 'done', file, result });
+      } catch (caught) {
+        const error = caught instanceof Error ? caught : new Error(String(caught));
+        failures.push({ file, error });
+        onEvent?.({ type: 'error', file, error });
+      }
+
+      completed++;
+      onProgress?.({ completed, failed: failures.length, total: videoPaths.length });
+    }
+  }
+
+  const concurrency = Math.min(baseConfig.maxConcurrentProcesses, videoPaths.length);
+  if (concurrency === 0) {
+    return { results: [], failures };
+  }
+
+  // Prepared once for all files; a failure here is reported by each file
+  await prepareWhisper(baseConfig.modelName, baseConfig.withCuda).catch(() => {});
+  const pool = options.pool || createWhisperPool(concurrency);
+  try {
+    await Promise.all(Array.from({ length: concurrency }, () => runNext()));
+  } finally {
+    // A pool that was passed in is shared, only close our own
+    if (pool !== options.pool) {
+      await pool.close();
+    }
+  }
+
+  return {
+    results: results.filter((result): result is TranscriptionResult => result !== undefined),
+    failures,
+  };
+}
@@ -0,0 +1,39 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Converts a media file to the 16 kHz mono WAV that whisper.cpp expects. WAV
+ * sources are converted too, as they may be stereo or use another sample rate
+ * or bit depth. The WAV is named after the whole source file name, e.g.
+ * a.mp4.16k.wav, so it never replaces the source and a.mp4 and a.mkv do not
+ * share one.
+ * @param inputPath Path to the source video or audio file
+ * @param outputDir Directory the WAV file should be written to
+ * @returns Path to the WAV file to transcribe
+ */
+export async function extractAudio(inputPath: string, outputDir: string): Promise<string> {
+  const wavPath = path.join(outputDir, `${path.basename(inputPath)}.16k.wav`);
+
+  await fs.ensureDir(outputDir);
+  await convertToWav(inputPath, wavPath);
+
+  return wavPath;
+}
+
+/**
+ * Decode the audio of a media file into a 16 kHz mono WAV with ffmpeg
+ * @param inputPath Path to the source video or audio file
+ * @param wavPath Where to write the WAV file
+ */
+export async function convertToWav(inputPath: string, wavPath: string): Promise<void> {
+  await execFileAsync('ffmpeg', [
+    '-nostats', '-loglevel', 'error', '-y',
+    '-i', inputPath,
+    '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+    wavPath,
+  ]);
+}
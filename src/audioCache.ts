@@ -0,0 +1,147 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { convertToWav } from './audio';
+import { computeFileHash } from './manifest';
+
+export interface AudioCacheOptions {
+  cacheDir: string; // Where the WAV files are kept
+  maxBytes: number; // Least recently used WAV files are removed above this size
+}
+
+// Cached WAV files are named after the SHA-256 hash of their source
+const CACHE_ENTRY = /^[0-9a-f]{64}\.wav$/;
+
+// Source hashes of this process, so a file is hashed once while it is unchanged
+const sourceHashes = new Map<string, { size: number; mtimeMs: number; hash: string }>();
+
+// Decodes in progress, so the same source is never decoded twice at once
+const pendingDecodes = new Map<string, Promise<string>>();
+
+// Cached WAV files in use, never evicted; a count per file as several videos may share one
+const pinned = new Map<string, number>();
+
+/**
+ * Hash the content of a source file, reusing the hash while its size and
+ * modification time are unchanged
+ */
+async function hashSource(sourcePath: string): Promise<string> {
+  const resolved = path.resolve(sourcePath);
+  const stats = await fs.stat(resolved);
+  const known = sourceHashes.get(resolved);
+  if (known && known.size === stats.size && known.mtimeMs === stats.mtimeMs) {
+    return known.hash;
+  }
+
+  const hash = await computeFileHash(resolved);
+  sourceHashes.set(resolved, { size: stats.size, mtimeMs: stats.mtimeMs, hash });
+  return hash;
+}
+
+/**
+ * Get the 16 kHz WAV of a media file from the cache, decoding it only if the
+ * cache does not have it yet. The WAV is named after the hash of the source's
+ * content, so renamed or copied files share it and a changed file gets a new
+ * one. It stays pinned until releaseCachedAudio is called.
+ * @param sourcePath The video or audio file
+ * @param options Cache directory and size limit
+ * @returns Path of the cached WAV file
+ */
+export async function getCachedAudio(sourcePath: string, options: AudioCacheOptions): Promise<string> {
+  const hash = await hashSource(sourcePath);
+  const wavPath = path.join(options.cacheDir, `${hash}.wav`);
+  pinned.set(wavPath, (pinned.get(wavPath) || 0) + 1);
+
+  try {
+    let decode = pendingDecodes.get(wavPath);
+    if (!decode) {
+      decode = decodeIntoCache(sourcePath, wavPath, options);
+      pendingDecodes.set(wavPath, decode);
+      decode.finally(() => pendingDecodes.delete(wavPath)).catch(() => {});
+    }
+    return await decode;
+  } catch (error) {
+    releaseCachedAudio(wavPath);
+    throw error;
+  }
+}
+
+/**
+ * Let a cached WAV file be evicted again once a video is done with it
+ * @param wavPath Path returned by getCachedAudio
+ */
+export function releaseCachedAudio(wavPath: string): void {
+  const count = pinned.get(wavPath) || 0;
+  if (count > 1) {
+    pinned.set(wavPath, count - 1);
+  } else {
+    pinned.delete(wavPath);
+  }
+}
+
+/**
+ * Decode a source into the cache unless it is there already, then evict the
+ * least recently used WAV files over the size limit
+ */
+async function decodeIntoCache(sourcePath: string, wavPath: string, options: AudioCacheOptions): Promise<string> {
+  const filename = path.basename(sourcePath);
+
+  if (await fs.pathExists(wavPath)) {
+    // The modification time records the last use for eviction
+    const now = new Date();
+    await fs.utimes(wavPath, now, now);
+    console.log(`♻️ Reusing cached audio for ${filename}`);
+    return wavPath;
+  }
+
+  // Written under another name first, so an interrupted decode is never taken for a cached WAV
+  await fs.ensureDir(options.cacheDir);
+  const partialPath = `${wavPath}.partial.wav`;
+  try {
+    await convertToWav(sourcePath, partialPath);
+    await fs.rename(partialPath, wavPath);
+  } finally {
+    await fs.remove(partialPath);
+  }
+  console.log(`💾 Cached audio for ${filename}`);
+
+  await evictAudio(options);
+  return wavPath;
+}
+
+/**
+ * Remove the least recently used WAV files until the cache fits its size
+ * limit. WAV files in use are kept, even if the cache stays over the limit.
+ * @param options Cache directory and size limit
+ * @returns The number of bytes freed
+ */
+export async function evictAudio(options: AudioCacheOptions): Promise<number> {
+  if (!(await fs.pathExists(options.cacheDir))) {
+    return 0;
+  }
+
+  const entries: { wavPath: string; size: number; lastUsed: number }[] = [];
+  for (const file of await fs.readdir(options.cacheDir)) {
+    if (!CACHE_ENTRY.test(file)) continue;
+    const wavPath = path.join(options.cacheDir, file);
+    const stats = await fs.stat(wavPath).catch(() => null);
+    if (stats) {
+      entries.push({ wavPath, size: stats.size, lastUsed: stats.mtimeMs });
+    }
+  }
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  let freed = 0;
+  for (const entry of entries.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= options.maxBytes) break;
+    if (pinned.has(entry.wavPath)) continue;
+
+    await fs.remove(entry.wavPath);
+    total -= entry.size;
+    freed += entry.size;
+  }
+
+  if (freed > 0) {
+    console.log(`🧹 Evicted ${Math.round(freed / (1024 * 1024))} MB of cached audio`);
+  }
+  return freed;
+}
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// Load environment variables from .env file if it exists, before the config is built
+import 'dotenv/config';
+import { runCli } from './cli';
+
+// Run the application
+runCli(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,112 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { Cue } from './subtitles';
+import { AudioChunk, ChunkOptions, planChunks, stitchChunks } from './chunking';
+
+const SAMPLE_RATE = 8000;
+
+// Three-second chunks overlapping by half a second
+const options: ChunkOptions = { chunkMinutes: 0.05, chunkOverlapSeconds: 0.5, chunkConcurrency: 1 };
+
+function cue(start: number, end: number, text: string): Cue {
+  return { id: null, start, end, text, settings: '', notes: [] };
+}
+
+/**
+ * Write a 16-bit mono WAV that is loud except for the silences given
+ */
+async function writeWav(durationMs: number, silences: [number, number][]): Promise<string> {
+  const samples = Math.round(durationMs * SAMPLE_RATE / 1000);
+  const data = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const ms = i * 1000 / SAMPLE_RATE;
+    const silent = silences.some(([start, end]) => ms >= start && ms < end);
+    data.writeInt16LE(silent ? 0 : (i % 2 ? 8000 : -8000), i * 2);
+  }
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVEfmt ', 8, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+
+  const wavPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'whispernode-test-')), 'audio.wav');
+  await fs.writeFile(wavPath, Buffer.concat([header, data]));
+  return wavPath;
+}
+
+test('keeps audio no longer than a chunk and a quarter in one chunk', async () => {
+  const wavPath = await writeWav(3500, []);
+  try {
+    assert.deepEqual(await planChunks(wavPath, options), [
+      { index: 0, start: 0, end: 3500, ownStart: 0, ownEnd: 3500 },
+    ]);
+  } finally {
+    await fs.remove(path.dirname(wavPath));
+  }
+});
+
+test('puts chunk boundaries in the pauses near the chunk length, with overlap', async () => {
+  // A pause within reach of each nominal boundary, near 3 s and near 3.45 + 3 s
+  const wavPath = await writeWav(10_000, [[3200, 3800], [6000, 6500]]);
+  try {
+    assert.deepEqual(await planChunks(wavPath, options), [
+      { index: 0, start: 0, end: 3950, ownStart: 0, ownEnd: 3450 },
+      { index: 1, start: 2950, end: 6750, ownStart: 3450, ownEnd: 6250 },
+      { index: 2, start: 5750, end: 10_000, ownStart: 6250, ownEnd: 10_000 },
+    ]);
+  } finally {
+    await fs.remove(path.dirname(wavPath));
+  }
+});
+
+test('stitches chunks, dropping the cues and words both chunks heard in the overlap', () => {
+  const chunks: AudioChunk[] = [
+    { index: 0, start: 0, end: 6000, ownStart: 0, ownEnd: 5000 },
+    { index: 1, start: 4000, end: 10_000, ownStart: 5000, ownEnd: 10_000 },
+  ];
+  const stitched = stitchChunks(chunks, [
+    [
+      cue(0, 2000, 'We started the engine'),
+      cue(3500, 4900, 'and drove off'),
+      cue(5200, 6000, 'into the'), // Centred in the second chunk's part
+    ],
+    [
+      cue(800, 1400, 'And drove off.'), // The same words as the first chunk's, a little later
+      cue(1400, 2500, 'drove off into the night'), // Starts with words the first chunk ended with
+      cue(3000, 4000, 'Then we left.'),
+    ],
+  ]);
+  assert.deepEqual(stitched, [
+    cue(0, 2000, 'We started the engine'),
+    cue(3500, 4900, 'and drove off'),
+    cue(5400, 6500, 'into the night'),
+    cue(7000, 8000, 'Then we left.'),
+  ]);
+});
+
+test('never starts a stitched cue before the previous one ends', () => {
+  const chunks: AudioChunk[] = [
+    { index: 0, start: 0, end: 6000, ownStart: 0, ownEnd: 5000 },
+    { index: 1, start: 4000, end: 10_000, ownStart: 5000, ownEnd: 10_000 },
+  ];
+  const stitched = stitchChunks(chunks, [
+    [cue(3000, 5400, 'We started the engine')],
+    [cue(900, 2000, 'Then we left.')],
+  ]);
+  assert.deepEqual(stitched, [
+    cue(3000, 5400, 'We started the engine'),
+    cue(5400, 6000, 'Then we left.'),
+  ]);
+});
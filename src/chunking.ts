@@ -0,0 +1,226 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { Config } from './config';
+import { Cue } from './subtitles';
+import { textSimilarity } from './hallucinations';
+import { readFrameLevels, writeWavRanges } from './wav';
+
+// Settings of chunked transcription
+export type ChunkOptions = Pick<Config, 'chunkMinutes' | 'chunkOverlapSeconds' | 'chunkConcurrency'>;
+
+// One chunk of long audio, times in milliseconds
+export interface AudioChunk {
+  index: number;
+  start: number;    // The audio transcribed, including the overlap with its neighbours
+  end: number;
+  ownStart: number; // The part whose cues are kept, from one boundary to the next
+  ownEnd: number;
+}
+
+// Levels are measured over 100 ms frames to find the quiet points
+const FRAME_MS = 100;
+
+// A boundary is put in the middle of the quietest half second
+const QUIET_WINDOW_FRAMES = 5;
+
+// How far a boundary may move from its nominal place to find a pause
+const MAX_BOUNDARY_SHIFT_MS = 30_000;
+
+// Cues at least this similar to a cue just before them in the overlap are duplicates
+const DUPLICATE_SIMILARITY = 0.8;
+
+// How far apart the times of two chunks' cues for the same words may be
+const DUPLICATE_TOLERANCE_MS = 1000;
+
+// The checkpoint of a chunked transcription, kept beside the chunk transcripts
+const CHECKPOINT_FILE = 'checkpoint.json';
+
+/**
+ * Split long audio into chunks of about chunkMinutes. Each boundary is moved
+ * to the quietest half second near it, so words are rarely cut, and every
+ * chunk also covers chunkOverlapSeconds of its neighbours.
+ * @param wavPath The audio, a 16-bit mono PCM WAV
+ * @param options Chunk length and overlap
+ * @returns The chunks in order; a single chunk if the audio is not longer than one
+ */
+export async function planChunks(wavPath: string, options: ChunkOptions): Promise<AudioChunk[]> {
+  const { levels, durationMs } = await readFrameLevels(wavPath, FRAME_MS);
+  const chunkMs = options.chunkMinutes * 60_000;
+  const overlapMs = options.chunkOverlapSeconds * 1000;
+  const shiftMs = Math.min(MAX_BOUNDARY_SHIFT_MS, chunkMs / 4);
+
+  // The last chunk may be up to a quarter longer rather than be a short one
+  const boundaries = [0];
+  while (durationMs - boundaries[boundaries.length - 1] > chunkMs * 1.25) {
+    boundaries.push(findQuietPoint(levels, boundaries[boundaries.length - 1] + chunkMs, shiftMs));
+  }
+  boundaries.push(durationMs);
+
+  return boundaries.slice(1).map((ownEnd, index) => {
+    const ownStart = boundaries[index];
+    return {
+      index,
+      start: Math.max(0, ownStart - overlapMs),
+      end: Math.min(durationMs, ownEnd + overlapMs),
+      ownStart,
+      ownEnd,
+    };
+  });
+}
+
+/**
+ * The middle of the quietest window within shiftMs of a time
+ */
+function findQuietPoint(levels: number[], target: number, shiftMs: number): number {
+  const first = Math.max(0, Math.round((target - shiftMs) / FRAME_MS));
+  const last = Math.min(levels.length - QUIET_WINDOW_FRAMES, Math.round((target + shiftMs) / FRAME_MS));
+
+  let best = Math.round(target / FRAME_MS);
+  let bestLevel = Infinity;
+  for (let frame = first; frame <= last; frame++) {
+    let sum = 0;
+    for (let i = frame; i < frame + QUIET_WINDOW_FRAMES; i++) sum += levels[i];
+    // Ties go to the window nearest the target, so silent stretches are cut in the expected place
+    if (sum < bestLevel || (sum === bestLevel && Math.abs(frame * FRAME_MS - target) < Math.abs(best * FRAME_MS - target))) {
+      bestLevel = sum;
+      best = frame;
+    }
+  }
+
+  return (best + QUIET_WINDOW_FRAMES / 2) * FRAME_MS;
+}
+
+/**
+ * Transcribe the chunks of long audio, chunkConcurrency at a time. Each
+ * finished chunk is saved in the checkpoint directory, so after a crash or a
+ * failed attempt only the chunks that were not finished are transcribed again.
+ * The checkpoint is discarded when its key or the chunks differ.
+ * @param wavPath The audio, a 16-bit mono PCM WAV
+ * @param chunks The chunks from planChunks
+ * @param checkpointDir Where the chunk transcripts are kept
+ * @param checkpointKey Identifies the source and the settings the transcripts depend on
+ * @param options Number of chunks transcribed at once
+ * @param transcribeChunk Transcribes the WAV of one chunk into cues timed from its start
+ * @returns The cues of each chunk, timed from the start of the chunk
+ */
+export async function transcribeChunks(
+  wavPath: string,
+  chunks: AudioChunk[],
+  checkpointDir: string,
+  checkpointKey: string,
+  options: ChunkOptions,
+  transcribeChunk: (chunkAudioPath: string, chunk: AudioChunk) => Promise<Cue[]>
+): Promise<Cue[][]> {
+  const checkpointPath = path.join(checkpointDir, CHECKPOINT_FILE);
+  const checkpoint = { key: checkpointKey, chunks: chunks.map(({ start, end }) => ({ start, end })) };
+
+  const saved = await fs.readJson(checkpointPath).catch(() => null);
+  if (!saved || JSON.stringify(saved) !== JSON.stringify(checkpoint)) {
+    await fs.emptyDir(checkpointDir);
+    await fs.writeJson(checkpointPath, checkpoint);
+  }
+
+  const results: Cue[][] = new Array(chunks.length);
+  const label = (chunk: AudioChunk) => `${chunk.index + 1}/${chunks.length}`;
+  let next = 0;
+
+  const work = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next++];
+      const cuesPath = path.join(checkpointDir, `chunk-${String(chunk.index + 1).padStart(3, '0')}.json`);
+
+      if (await fs.pathExists(cuesPath)) {
+        results[chunk.index] = await fs.readJson(cuesPath);
+        console.log(`♻️ Chunk ${label(chunk)} restored from the checkpoint`);
+        continue;
+      }
+
+      // Outside the checkpoint, which may be in the videos directory, so a crash never leaves a WAV to be scanned
+      const chunkAudioPath = path.join(os.tmpdir(), `whispernode-chunk-${process.pid}-${Date.now()}-${chunk.index + 1}.wav`);
+      try {
+        await writeWavRanges(wavPath, [chunk], chunkAudioPath);
+        const cues = await transcribeChunk(chunkAudioPath, chunk);
+
+        // Written under another name first, so a crash never leaves half a transcript
+        await fs.writeJson(`${cuesPath}.partial`, cues);
+        await fs.rename(`${cuesPath}.partial`, cuesPath);
+        results[chunk.index] = cues;
+        console.log(`🧩 Chunk ${label(chunk)} transcribed: ${cues.length} cue(s)`);
+      } finally {
+        await fs.remove(chunkAudioPath);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.chunkConcurrency, chunks.length) }, work));
+  return results;
+}
+
+/**
+ * Join the transcripts of overlapping chunks into one list of cues on the
+ * timeline of the whole audio. Each chunk keeps the cues centred in its own
+ * part; words a cue repeats from the end of the cue before it, and cues that
+ * repeat a cue just before them, come from the overlap and are removed. Cues
+ * never start before the previous one ends.
+ * @param chunks The chunks from planChunks
+ * @param chunkCues The cues of each chunk, timed from the start of the chunk
+ * @returns The stitched cues
+ */
+export function stitchChunks(chunks: AudioChunk[], chunkCues: Cue[][]): Cue[] {
+  const stitched: Cue[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const overlapStart = chunk.ownStart - (chunk.ownStart - chunk.start) * 2;
+    for (const cue of chunkCues[index]) {
+      const start = cue.start + chunk.start;
+      const end = Math.min(cue.end + chunk.start, chunk.end);
+      const middle = (start + end) / 2;
+      if (middle < chunk.ownStart || (middle >= chunk.ownEnd && index < chunks.length - 1)) continue;
+
+      const previous = stitched[stitched.length - 1];
+      let text = cue.text;
+      if (previous && index > 0 && start < chunk.ownStart + (chunk.ownStart - chunk.start)) {
+        // Both chunks heard the same words at about the same time
+        const recent = stitched.filter(candidate => candidate.end >= overlapStart &&
+          candidate.end + DUPLICATE_TOLERANCE_MS > start && candidate.start < end + DUPLICATE_TOLERANCE_MS);
+        if (recent.some(candidate => textSimilarity(normalize(candidate.text), normalize(text)) >= DUPLICATE_SIMILARITY)) continue;
+        text = trimRepeatedWords(previous.text, text);
+        if (!text) continue;
+      }
+
+      const cueStart = previous ? Math.max(start, previous.end) : start;
+      if (end <= cueStart) continue;
+      stitched.push({ ...cue, id: null, start: cueStart, end, text });
+    }
+  });
+
+  return stitched;
+}
+
+/**
+ * Text compared without case and punctuation
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Remove the words a cue starts with when the previous cue ended with them,
+ * as happens when both chunks transcribed the same sentence at the boundary
+ * @returns The rest of the text, empty if it only repeated words
+ */
+function trimRepeatedWords(previousText: string, text: string): string {
+  const previousWords = previousText.split(/\s+/).filter(Boolean).map(normalize);
+  const words = text.split(/\s+/).filter(Boolean);
+  const normalized = words.map(normalize);
+
+  // Two words at least, a single repeated word is often genuine ("no, no")
+  for (let count = Math.min(previousWords.length, words.length); count >= 2; count--) {
+    const tail = previousWords.slice(previousWords.length - count);
+    if (tail.every((word, i) => word === normalized[i])) {
+      return words.slice(count).join(' ');
+    }
+  }
+  return text;
+}
@@ -0,0 +1,705 @@
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  config,
+  Config,
+  AVAILABLE_MODELS,
+  LANGUAGE_CODES,
+  LANGUAGE_NAMES,
+  LANGUAGE_DETECTION_METHODS,
+  parseLanguageMap,
+  parseList,
+} from './config';
+import { postProcessSubtitles } from './postprocess';
+import { runBatch, findVideos, planBatch, requestStop } from './pipeline';
+import { ConfigError, applyConfigFile, validateConfig } from './configFile';
+import { startService } from './server';
+import { watchVideos } from './watcher';
+import { scanVideos } from './scanner';
+import { EMBED_MODES, EXISTING_SUBTITLE_MODES } from './embed';
+import { INPUT_FORMATS, OUTPUT_FORMATS, InputFormat, OutputFormat, convertFile, detectInputFormat, isSubtitleContent, getInputExtensions, getFormatExtension } from './convert';
+import { downloadModel, getModelPath } from './whisper';
+
+type FlagType = 'string' | 'number' | 'boolean' | 'list' | 'map';
+
+// A command line flag that overrides a Config field
+interface ConfigFlag {
+  flag: string;
+  key: keyof Config | `formats.${keyof Config['formats']}`;
+  type: FlagType;
+  description: string;
+  choices?: readonly string[];
+}
+
+// A flag that only changes how a command runs
+interface CommandFlag {
+  flag: string;
+  type: FlagType;
+  description: string;
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Map<string, string | boolean>;
+}
+
+// Invalid command line usage, reported without a stack trace
+class UsageError extends Error {}
+
+const CONFIG_FLAGS: ConfigFlag[] = [
+  { flag: 'videos-dir', key: 'videosDir', type: 'string', description: 'Directory to scan for videos' },
+  { flag: 'output-dir', key: 'outputDir', type: 'string', description: 'Directory generated files are written to' },
+  { flag: 'manifest-path', key: 'manifestPath', type: 'string', description: 'Manifest used to skip up-to-date videos' },
+  { flag: 'job-store-path', key: 'jobStorePath', type: 'string', description: 'Job queue used to resume interrupted runs' },
+  { flag: 'report-path', key: 'reportPath', type: 'string', description: 'Where the JSON run report is written' },
+  { flag: 'audio-cache-dir', key: 'audioCacheDir', type: 'string', description: 'Where decoded audio is cached' },
+  { flag: 'include', key: 'includePatterns', type: 'list', description: 'Only process files matching these globs' },
+  { flag: 'exclude', key: 'excludePatterns', type: 'list', description: 'Skip files and folders matching these globs' },
+  { flag: 'max-depth', key: 'maxScanDepth', type: 'number', description: 'Folder levels below the videos directory to scan' },
+  { flag: 'follow-symlinks', key: 'followSymlinks', type: 'boolean', description: 'Follow symbolic links while scanning' },
+  { flag: 'model', key: 'modelName', type: 'string', description: 'Whisper model', choices: AVAILABLE_MODELS },
+  { flag: 'use-cuda', key: 'withCuda', type: 'boolean', description: 'Use an NVIDIA GPU' },
+  { flag: 'use-amd-gpu', key: 'useAmdGpu', type: 'boolean', description: 'Use an AMD GPU' },
+  { flag: 'concurrency', key: 'maxConcurrentProcesses', type: 'number', description: 'Number of videos processed in parallel' },
+  { flag: 'job-timeout', key: 'jobTimeoutMinutes', type: 'number', description: 'Minutes a whisper.cpp run may take before it is killed and fails (0: no limit)' },
+  { flag: 'srt', key: 'formats.srt', type: 'boolean', description: 'Write SRT subtitles' },
+  { flag: 'vtt', key: 'formats.vtt', type: 'boolean', description: 'Write WebVTT subtitles' },
+  { flag: 'json', key: 'formats.json', type: 'boolean', description: 'Write JSON output' },
+  { flag: 'text', key: 'formats.text', type: 'boolean', description: 'Write plain text output' },
+  { flag: 'words', key: 'formats.words', type: 'boolean', description: 'Write word timestamps (.wts)' },
+  { flag: 'lrc', key: 'formats.lrc', type: 'boolean', description: 'Write LRC lyrics' },
+  { flag: 'csv', key: 'formats.csv', type: 'boolean', description: 'Write CSV output' },
+  { flag: 'ass', key: 'formats.ass', type: 'boolean', description: 'Write ASS subtitles' },
+  { flag: 'ssa', key: 'formats.ssa', type: 'boolean', description: 'Write SSA subtitles' },
+  { flag: 'ttml', key: 'formats.ttml', type: 'boolean', description: 'Write TTML subtitles' },
+  { flag: 'dfxp', key: 'formats.dfxp', type: 'boolean', description: 'Write DFXP subtitles' },
+  { flag: 'sbv', key: 'formats.sbv', type: 'boolean', description: 'Write YouTube SBV subtitles' },
+  { flag: 'stl', key: 'formats.stl', type: 'boolean', description: 'Write EBU-STL subtitles' },
+  { flag: 'embed', key: 'embedSubtitles', type: 'string', description: 'Add subtitles to the video as soft tracks', choices: EMBED_MODES },
+  { flag: 'ass-style', key: 'assStyle', type: 'string', description: 'ASS/SSA style, e.g. "Fontname=Verdana,Fontsize=48"' },
+  { flag: 'word-timestamps', key: 'wordTimestamps', type: 'boolean', description: 'One cue per word' },
+  { flag: 'split-on-word', key: 'splitOnWord', type: 'boolean', description: 'Split cues on word boundaries' },
+  { flag: 'translate-to-english', key: 'translateToEnglish', type: 'boolean', description: 'Translate the transcript to English' },
+  { flag: 'translate-to', key: 'translationTargets', type: 'list', description: 'Also write translations into these languages, e.g. "en,fr"' },
+  { flag: 'translation-backend', key: 'translationBackend', type: 'string', description: 'Translator to use: libretranslate or mock' },
+  { flag: 'translation-url', key: 'translationUrl', type: 'string', description: 'Address of the LibreTranslate server' },
+  { flag: 'audio-cache', key: 'audioCache', type: 'boolean', description: 'Keep the decoded audio of each video for later runs' },
+  { flag: 'audio-cache-max-mb', key: 'audioCacheMaxMb', type: 'number', description: 'Size limit of the audio cache (MB)' },
+  { flag: 'remove-wav-file', key: 'removeWavFileAfterTranscription', type: 'boolean', description: 'Delete the intermediate WAV file' },
+  { flag: 'max-retries', key: 'maxRetries', type: 'number', description: 'Retries per video after the first attempt' },
+  { flag: 'retry-base-delay', key: 'retryBaseDelayMs', type: 'number', description: 'Delay before the first retry (ms)' },
+  { flag: 'retry-max-delay', key: 'retryMaxDelayMs', type: 'number', description: 'Maximum delay between retries (ms)' },
+  { flag: 'language', key: 'defaultLanguage', type: 'string', description: 'Default language code', choices: LANGUAGE_CODES },
+  { flag: 'detect-language', key: 'detectLanguage', type: 'boolean', description: 'Detect the language from the filename' },
+  { flag: 'language-map', key: 'languageMap', type: 'map', description: 'Filename patterns to languages, e.g. "arabic:ar,Marina:en"' },
+  { flag: 'language-detection-method', key: 'languageDetectionMethod', type: 'string', description: 'How the language is detected', choices: LANGUAGE_DETECTION_METHODS },
+  { flag: 'container-language', key: 'useContainerLanguage', type: 'boolean', description: 'Use the language tags of the audio and subtitle tracks' },
+  { flag: 'existing-subtitles', key: 'existingSubtitles', type: 'string', description: 'When the video has subtitles in the language already', choices: EXISTING_SUBTITLE_MODES },
+  { flag: 'audio-language-detection', key: 'audioLanguageDetection', type: 'boolean', description: 'Identify the language from samples of the audio' },
+  { flag: 'min-language-confidence', key: 'minLanguageConfidence', type: 'number', description: 'Confidence (%) the identified language needs' },
+  { flag: 'language-sample-windows', key: 'languageSampleWindows', type: 'number', description: '30 second audio windows used to identify the language' },
+  { flag: 'multi-language', key: 'multiLanguage', type: 'boolean', description: 'Detect the language of each chunk for videos that switch languages' },
+  { flag: 'language-chunk-seconds', key: 'languageChunkSeconds', type: 'number', description: 'Length of the chunks whose language is detected' },
+  { flag: 'multi-language-codes', key: 'multiLanguageCodes', type: 'list', description: 'Languages videos switch between, e.g. "ar,en"' },
+  { flag: 'chunk-long-media', key: 'chunkLongMedia', type: 'boolean', description: 'Transcribe long media in overlapping chunks with checkpoints' },
+  { flag: 'chunk-minutes', key: 'chunkMinutes', type: 'number', description: 'Length of the chunks (minutes)' },
+  { flag: 'chunk-overlap', key: 'chunkOverlapSeconds', type: 'number', description: 'Audio each chunk shares with its neighbours (seconds)' },
+  { flag: 'chunk-concurrency', key: 'chunkConcurrency', type: 'number', description: 'Chunks of one video transcribed at once' },
+  { flag: 'vad', key: 'vad', type: 'boolean', description: 'Only transcribe the speech, skipping silence and music' },
+  { flag: 'vad-threshold-db', key: 'vadThresholdDb', type: 'number', description: 'How much louder than the noise floor speech is (dB)' },
+  { flag: 'vad-padding', key: 'vadPaddingMs', type: 'number', description: 'Audio kept around each speech region (ms)' },
+  { flag: 'vad-min-silence', key: 'vadMinSilenceMs', type: 'number', description: 'Shorter pauses do not split speech regions (ms)' },
+  { flag: 'vad-min-speech', key: 'vadMinSpeechMs', type: 'number', description: 'Shorter sounds are not speech (ms)' },
+  { flag: 'deduplicate', key: 'deduplicateSubtitles', type: 'boolean', description: 'Remove repeated subtitle lines' },
+  { flag: 'max-duplicates', key: 'maxDuplicates', type: 'number', description: 'Consecutive duplicates to keep' },
+  { flag: 'max-chars-per-line', key: 'maxCharsPerLine', type: 'number', description: 'Maximum characters per subtitle line' },
+  { flag: 'max-lines', key: 'maxLinesPerCue', type: 'number', description: 'Maximum lines per cue' },
+  { flag: 'max-cue-duration', key: 'maxCueDurationMs', type: 'number', description: 'Maximum time a cue is shown (ms)' },
+  { flag: 'min-cue-gap', key: 'minCueGapMs', type: 'number', description: 'Minimum gap between cues (ms)' },
+  { flag: 'max-cps', key: 'maxCharsPerSecond', type: 'number', description: 'Maximum reading speed (characters per second)' },
+  { flag: 'filter-hallucinations', key: 'filterHallucinations', type: 'boolean', description: 'Remove cues Whisper made up' },
+  { flag: 'repeat-similarity', key: 'repeatSimilarity', type: 'number', description: 'Similarity (%) at which a cue repeats the previous one' },
+  { flag: 'max-phrase-repeats', key: 'maxPhraseRepeats', type: 'number', description: 'Times a phrase may repeat inside a cue' },
+  { flag: 'hallucination-phrases', key: 'hallucinationPhrases', type: 'list', description: 'More phrases to remove, e.g. "Subtitles by XYZ"' },
+  { flag: 'max-speech-cps', key: 'maxSpeechCharsPerSecond', type: 'number', description: 'Fastest plausible speech (characters per second)' },
+  { flag: 'max-ms-per-char', key: 'maxMsPerChar', type: 'number', description: 'Slowest plausible speech (ms per character)' },
+];
+
+// Flags accepted by every command
+const GLOBAL_FLAGS: CommandFlag[] = [
+  { flag: 'config', type: 'string', description: 'JSON or YAML config file (default: whispernode.config.{json,yaml,yml})' },
+];
+
+const COMMAND_FLAGS: Record<string, CommandFlag[]> = {
+  transcribe: [
+    { flag: 'force', type: 'boolean', description: 'Re-process videos whose subtitles are up to date' },
+    { flag: 'parallel', type: 'boolean', description: 'Use the parallel queue even with a concurrency of 1' },
+  ],
+  scan: [
+    { flag: 'force', type: 'boolean', description: 'List up-to-date videos as if they would be re-processed' },
+  ],
+  postprocess: [],
+  convert: [
+    { flag: 'to', type: 'string', description: `Format to write: ${OUTPUT_FORMATS.join(', ')}` },
+    { flag: 'from', type: 'string', description: 'Format to read (default: from the file extension)' },
+    { flag: 'out-dir', type: 'string', description: 'Where converted files are written (default: next to the originals)' },
+    { flag: 'postprocess', type: 'boolean', description: 'Filter, merge, split and re-time cues like transcribed subtitles' },
+    { flag: 'offset', type: 'string', description: 'Shift all times by this many ms (negative to show subtitles earlier)' },
+    { flag: 'scale', type: 'string', description: 'Multiply all times by this factor, e.g. 1.0427 for 23.976 -> 25 fps' },
+    { flag: 'force', type: 'boolean', description: 'Overwrite converted files that already exist' },
+  ],
+  watch: [
+    { flag: 'poll-interval', type: 'number', description: 'How often to scan for new videos (ms, default 5000)' },
+    { flag: 'stable-time', type: 'number', description: 'How long a file must stay unchanged before it is processed (ms, default 10000)' },
+    { flag: 'parallel', type: 'boolean', description: 'Use the parallel queue even with a concurrency of 1' },
+    { flag: 'move-processed', type: 'boolean', description: 'Move sources to the done/ or failed/ folder after processing' },
+    { flag: 'done-dir', type: 'string', description: 'Folder for processed sources (default <videos-dir>/done)' },
+    { flag: 'failed-dir', type: 'string', description: 'Folder for sources that failed (default <videos-dir>/failed)' },
+  ],
+  serve: [
+    { flag: 'port', type: 'number', description: 'Port to listen on (default 8080)' },
+    { flag: 'host', type: 'string', description: 'Address to listen on (default 127.0.0.1)' },
+    { flag: 'data-dir', type: 'string', description: 'Where uploads and job outputs are stored (default ./whispernode-service)' },
+  ],
+};
+
+const COMMAND_NAMES = ['transcribe', 'scan', 'watch', 'models', 'languages', 'postprocess', 'convert', 'serve', 'help'];
+
+const COMMANDS: Record<string, string> = {
+  'transcribe [paths...]': 'Transcribe videos (default command; paths default to the videos directory)',
+  'scan [paths...]': 'List the videos that would be processed, without processing them',
+  'watch': 'Keep running and transcribe new or changed videos as they arrive',
+  'models list': 'List the available Whisper models',
+  'models download <names...>': 'Download Whisper models',
+  'languages': 'List the supported language codes',
+  'postprocess <files...>': 'Post-process existing SRT/VTT files',
+  'convert <paths...>': 'Convert subtitle files or folders to another format, without transcribing',
+  'serve': 'Run the HTTP transcription service',
+  'help [command]': 'Show help',
+};
+
+/**
+ * Split the arguments into positionals and flags
+ * Flags are `--name value`, `--name=value`, `--flag` and `--no-flag`
+ */
+function parseArgs(argv: string[], knownFlags: Map<string, FlagType>): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], flags: new Map() };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      parsed.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (arg === '-h') {
+      parsed.flags.set('help', true);
+      continue;
+    }
+
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [rawName, inlineValue] = splitOnce(arg.slice(2), '=');
+    const negated = rawName.startsWith('no-') && knownFlags.get(rawName.slice(3)) === 'boolean';
+    const name = negated ? rawName.slice(3) : rawName;
+    const type = knownFlags.get(name);
+
+    if (!type) {
+      throw new UsageError(`Unknown option: --${rawName}`);
+    }
+
+    if (type === 'boolean') {
+      if (negated) {
+        parsed.flags.set(name, false);
+      } else if (inlineValue !== undefined) {
+        if (!['true', 'false'].includes(inlineValue)) {
+          throw new UsageError(`--${name} expects true or false, got "${inlineValue}"`);
+        }
+        parsed.flags.set(name, inlineValue === 'true');
+      } else {
+        parsed.flags.set(name, true);
+      }
+      continue;
+    }
+
+    const value = inlineValue !== undefined ? inlineValue : argv[++i];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+      throw new UsageError(`--${name} expects a value`);
+    }
+    parsed.flags.set(name, value);
+  }
+
+  return parsed;
+}
+
+/**
+ * Find the command: the first argument that is neither a flag nor a flag's value
+ * @returns The command, or undefined if the arguments start with a path
+ */
+function findCommand(argv: string[]): string | undefined {
+  const flagTypes = new Map<string, FlagType>();
+  for (const option of [...GLOBAL_FLAGS, ...CONFIG_FLAGS, ...Object.values(COMMAND_FLAGS).flat()]) {
+    flagTypes.set(option.flag, option.type);
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') return undefined;
+
+    if (arg.startsWith('-')) {
+      const type = flagTypes.get(arg.slice(2));
+      if (type && type !== 'boolean') i++; // Skip the value
+      continue;
+    }
+
+    return COMMAND_NAMES.includes(arg) ? arg : undefined;
+  }
+
+  return undefined;
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
+
+/**
+ * Convert a flag value to the type of its Config field
+ */
+function convertValue(name: string, type: FlagType, value: string | boolean, choices?: readonly string[]): unknown {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+
+  switch (type) {
+    case 'number': {
+      const number = value === 'Infinity' ? Infinity : Number(value);
+      if (isNaN(number) || number < 0) {
+        throw new UsageError(`--${name} expects a non-negative number, got "${value}"`);
+      }
+      return number;
+    }
+    case 'list':
+      return parseList(value);
+    case 'map':
+      return parseLanguageMap(value);
+    default:
+      if (choices && !choices.includes(value)) {
+        throw new UsageError(`Invalid value "${value}" for --${name}. Expected one of: ${choices.join(', ')}`);
+      }
+      return value;
+  }
+}
+
+/**
+ * Apply config flags on top of the environment-based configuration
+ */
+function applyConfigFlags(flags: Map<string, string | boolean>): void {
+  for (const option of CONFIG_FLAGS) {
+    const value = flags.get(option.flag);
+    if (value === undefined) continue;
+
+    const converted = convertValue(option.flag, option.type, value, option.choices);
+
+    if (option.key.startsWith('formats.')) {
+      const format = option.key.slice('formats.'.length) as keyof Config['formats'];
+      config.formats[format] = converted as boolean;
+    } else {
+      (config as unknown as Record<string, unknown>)[option.key] = converted;
+    }
+  }
+}
+
+function formatFlag(option: { flag: string; type: FlagType }): string {
+  switch (option.type) {
+    case 'boolean':
+      return `--[no-]${option.flag}`;
+    case 'number':
+      return `--${option.flag} <n>`;
+    case 'list':
+      return `--${option.flag} <a,b,...>`;
+    case 'map':
+      return `--${option.flag} <pattern:lang,...>`;
+    default:
+      return `--${option.flag} <value>`;
+  }
+}
+
+function printOptions(options: { flag: string; type: FlagType; description: string; choices?: readonly string[] }[]): void {
+  const width = Math.max(...options.map(option => formatFlag(option).length)) + 2;
+  for (const option of options) {
+    // Model and language lists are long, they have their own commands
+    const choices = option.choices && option.choices.length <= 5 ? ` (${option.choices.join(', ')})` : '';
+    console.log(`  ${formatFlag(option).padEnd(width)}${option.description}${choices}`);
+  }
+}
+
+function printHelp(command?: string): void {
+  if (command && COMMAND_FLAGS[command]) {
+    const usage = Object.keys(COMMANDS).find(usage => usage.startsWith(command))!;
+    console.log(`Usage: whispernode ${usage} [options]\n\n${COMMANDS[usage]}\n`);
+    console.log('Options:');
+    printOptions([...GLOBAL_FLAGS, ...COMMAND_FLAGS[command]]);
+    console.log('\nConfiguration options (override the config file and environment variables):');
+    printOptions(CONFIG_FLAGS);
+    return;
+  }
+
+  console.log('Usage: whispernode [command] [options]\n');
+  console.log('Commands:');
+  const width = Math.max(...Object.keys(COMMANDS).map(usage => usage.length)) + 2;
+  for (const [usage, description] of Object.entries(COMMANDS)) {
+    console.log(`  ${usage.padEnd(width)}${description}`);
+  }
+  console.log('\nOptions:');
+  printOptions(GLOBAL_FLAGS);
+  console.log('\nConfiguration options (override the config file and environment variables):');
+  printOptions(CONFIG_FLAGS);
+  console.log('\nRun "whispernode help <command>" for the options of a command.');
+}
+
+async function transcribeCommand(paths: string[], flags: Map<string, string | boolean>): Promise<number> {
+  // The first Ctrl+C lets videos in progress finish and writes the report, the second one exits immediately
+  let stopping = false;
+  const stop = () => {
+    if (stopping) {
+      process.exit(130);
+    }
+    stopping = true;
+    console.log('\n🛑 Stopping: waiting for videos in progress to finish (press Ctrl+C again to force)');
+    requestStop();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  let report;
+  try {
+    report = await runBatch({
+      inputs: paths,
+      force: flags.get('force') === true,
+      parallel: flags.get('parallel') === true,
+    });
+  } finally {
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+  }
+
+  return report && report.failed > 0 ? 1 : 0;
+}
+
+async function scanCommand(paths: string[], flags: Map<string, string | boolean>): Promise<number> {
+  const videoPaths = await findVideos(paths);
+  const plan = await planBatch(videoPaths, flags.get('force') === true);
+
+  console.log(`\n📋 Would process ${plan.outdated.length} video(s):`);
+  for (const videoPath of plan.outdated) {
+    console.log(`  ${path.relative(process.cwd(), videoPath)}`);
+  }
+
+  console.log(`\n⏭️ Up to date: ${plan.upToDate.length} video(s)`);
+  for (const videoPath of plan.upToDate) {
+    console.log(`  ${path.relative(process.cwd(), videoPath)}`);
+  }
+
+  return 0;
+}
+
+async function modelsCommand(args: string[]): Promise<number> {
+  const [action, ...names] = args;
+
+  if (action === 'list' || action === undefined) {
+    for (const model of AVAILABLE_MODELS) {
+      const modelPath = getModelPath(model);
+      let status: string;
+      if (!modelPath) {
+        status = '⚠️  not supported by nodejs-whisper';
+      } else if (await fs.pathExists(modelPath)) {
+        status = '✅ downloaded';
+      } else {
+        status = '⬜ not downloaded';
+      }
+      console.log(`  ${model.padEnd(16)}${status}${model === config.modelName ? '  (current)' : ''}`);
+    }
+    return 0;
+  }
+
+  if (action !== 'download') {
+    throw new UsageError(`Unknown models command: ${action}. Expected "list" or "download"`);
+  }
+
+  const models = names.length > 0 ? names : [config.modelName];
+  for (const model of models) {
+    if (!AVAILABLE_MODELS.includes(model)) {
+      throw new UsageError(`Unknown model "${model}". Expected one of: ${AVAILABLE_MODELS.join(', ')}`);
+    }
+  }
+
+  for (const model of models) {
+    console.log(`⬇️ Downloading model: ${model}`);
+    const downloaded = await downloadModel(model);
+    console.log(`✅ ${model}: ${downloaded ? 'downloaded' : 'already downloaded'}`);
+  }
+
+  return 0;
+}
+
+function languagesCommand(): number {
+  for (const code of LANGUAGE_CODES) {
+    console.log(`  ${code.padEnd(6)}${LANGUAGE_NAMES[code]}`);
+  }
+  return 0;
+}
+
+async function postprocessCommand(files: string[]): Promise<number> {
+  if (files.length === 0) {
+    throw new UsageError('postprocess expects at least one subtitle file');
+  }
+
+  let missing = 0;
+  for (const file of files) {
+    if (!(await fs.pathExists(file))) {
+      console.error(`❌ File not found: ${file}`);
+      missing++;
+      continue;
+    }
+    await postProcessSubtitles(path.resolve(file));
+  }
+
+  return missing > 0 ? 1 : 0;
+}
+
+/**
+ * Parse a numeric flag that may be negative or fractional
+ */
+function parseNumberFlag(flags: Map<string, string | boolean>, name: string, defaultValue: number): number {
+  const value = flags.get(name);
+  if (value === undefined) return defaultValue;
+
+  const number = Number(value);
+  if (typeof value !== 'string' || value.trim() === '' || !isFinite(number)) {
+    throw new UsageError(`--${name} expects a number, got "${value}"`);
+  }
+  return number;
+}
+
+async function convertCommand(paths: string[], flags: Map<string, string | boolean>): Promise<number> {
+  if (paths.length === 0) {
+    throw new UsageError('convert expects at least one subtitle file or folder');
+  }
+
+  const to = flags.get('to') as OutputFormat | undefined;
+  if (!to || !OUTPUT_FORMATS.includes(to)) {
+    throw new UsageError(`--to expects one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  const from = flags.get('from') as InputFormat | undefined;
+  if (from !== undefined && !INPUT_FORMATS.includes(from)) {
+    throw new UsageError(`--from expects one of: ${INPUT_FORMATS.join(', ')}`);
+  }
+  const offsetMs = parseNumberFlag(flags, 'offset', 0);
+  const scale = parseNumberFlag(flags, 'scale', 1);
+  if (scale <= 0) {
+    throw new UsageError(`--scale expects a positive number, got "${flags.get('scale')}"`);
+  }
+  const outDir = flags.has('out-dir') ? path.resolve(flags.get('out-dir') as string) : null;
+  const force = flags.get('force') === true;
+
+  let failed = 0;
+  let converted = 0;
+  let skipped = 0;
+  for (const input of paths) {
+    const inputPath = path.resolve(input);
+    if (!(await fs.pathExists(inputPath))) {
+      console.error(`❌ File not found: ${input}`);
+      failed++;
+      continue;
+    }
+
+    // Folders are converted recursively, their structure is mirrored in the output folder
+    const isFolder = (await fs.stat(inputPath)).isDirectory();
+    const files = isFolder
+      ? await scanVideos(inputPath, {
+          include: [],
+          exclude: [],
+          maxDepth: Infinity,
+          followSymlinks: config.followSymlinks,
+          extensions: getInputExtensions(from),
+        })
+      : [inputPath];
+
+    for (const file of files) {
+      const relativeDir = isFolder ? path.relative(inputPath, path.dirname(file)) : '';
+      const targetDir = outDir ? path.join(outDir, relativeDir) : path.dirname(file);
+      const outputPath = path.join(targetDir, path.basename(file, path.extname(file)) + getFormatExtension(to));
+
+      if (outputPath === file) {
+        console.log(`⏭️ Skipping ${path.relative(process.cwd(), file)}: it would be overwritten, use --out-dir`);
+        skipped++;
+        continue;
+      }
+
+      // Folders hold other files with subtitle extensions too, like JSON or XML data
+      const format = from || detectInputFormat(file);
+      if (isFolder && format && !isSubtitleContent(await fs.readFile(file, 'utf8'), format)) {
+        console.log(`⏭️ Skipping ${path.relative(process.cwd(), file)}: not ${format.toUpperCase()} subtitles`);
+        skipped++;
+        continue;
+      }
+      if (!force && (await fs.pathExists(outputPath))) {
+        console.log(`⏭️ Skipping ${path.relative(process.cwd(), file)}: ${path.relative(process.cwd(), outputPath)} exists, use --force to overwrite it`);
+        skipped++;
+        continue;
+      }
+
+      try {
+        const filtered = await convertFile(file, outputPath, to, {
+          from,
+          postProcess: flags.get('postprocess') === true ? config : null,
+          language: config.defaultLanguage,
+          offsetMs,
+          scale,
+          assStyle: config.assStyle,
+        });
+        console.log(`🔄 Converted ${path.relative(process.cwd(), file)} -> ${path.relative(process.cwd(), outputPath)}`);
+        if (filtered.length > 0) {
+          console.log(`🧹 Filtered ${filtered.length} hallucinated cue(s)`);
+        }
+        converted++;
+      } catch (error) {
+        console.error(`❌ Error converting ${file}:`, error instanceof Error ? error.message : error);
+        failed++;
+      }
+    }
+  }
+
+  console.log(`\n✅ Converted ${converted} file(s)${skipped > 0 ? `, ${skipped} skipped` : ''}${failed > 0 ? `, ${failed} failed` : ''}`);
+  return failed > 0 ? 1 : 0;
+}
+
+async function watchCommand(flags: Map<string, string | boolean>): Promise<number> {
+  const moveProcessed = flags.get('move-processed') === true;
+  const controller = new AbortController();
+
+  // The first Ctrl+C lets videos in progress finish, the second one exits immediately
+  const stop = () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    controller.abort();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  try {
+    await watchVideos({
+      pollIntervalMs: flags.has('poll-interval') ? convertValue('poll-interval', 'number', flags.get('poll-interval')!) as number : 5000,
+      stableMs: flags.has('stable-time') ? convertValue('stable-time', 'number', flags.get('stable-time')!) as number : 10000,
+      parallel: flags.get('parallel') === true,
+      doneDir: moveProcessed ? path.resolve((flags.get('done-dir') as string | undefined) || path.join(config.videosDir, 'done')) : null,
+      failedDir: moveProcessed ? path.resolve((flags.get('failed-dir') as string | undefined) || path.join(config.videosDir, 'failed')) : null,
+      signal: controller.signal,
+    });
+  } finally {
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+  }
+
+  return 0;
+}
+
+async function serveCommand(flags: Map<string, string | boolean>): Promise<number> {
+  const port = flags.has('port') ? convertValue('port', 'number', flags.get('port')!) as number : 8080;
+  if (!Number.isInteger(port) || port > 65535) {
+    throw new UsageError(`--port expects a port number, got "${flags.get('port')}"`);
+  }
+
+  const server = await startService({
+    port,
+    host: (flags.get('host') as string | undefined) || '127.0.0.1',
+    // Kept out of the videos directory so batch runs never pick up uploads
+    dataDir: path.resolve((flags.get('data-dir') as string | undefined) || 'whispernode-service'),
+  });
+
+  // Serve until interrupted
+  await new Promise<void>(resolve => {
+    const stop = () => {
+      console.log('\n👋 Stopping the service');
+      server.close(() => resolve());
+      server.closeAllConnections();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+
+  return 0;
+}
+
+/**
+ * Run the command line interface
+ * @param argv The arguments without the node and script paths
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  try {
+    // The command decides which flags are valid, so find it before parsing
+    const explicitCommand = findCommand(argv);
+    const command = explicitCommand || 'transcribe';
+
+    const knownFlags = new Map<string, FlagType>([['help', 'boolean']]);
+    for (const option of [...GLOBAL_FLAGS, ...CONFIG_FLAGS, ...(COMMAND_FLAGS[command] || [])]) {
+      knownFlags.set(option.flag, option.type);
+    }
+
+    const { positionals, flags } = parseArgs(argv, knownFlags);
+    const args = explicitCommand ? positionals.slice(1) : positionals;
+
+    if (command === 'help' || flags.get('help') === true) {
+      printHelp(command === 'help' ? args[0] : explicitCommand);
+      return 0;
+    }
+
+    // Layering: environment < config file < command line flags
+    const configFile = await applyConfigFile(flags.get('config') as string | undefined);
+    if (configFile) {
+      console.log(`⚙️ Using config file: ${configFile}`);
+    }
+    applyConfigFlags(flags);
+    validateConfig(config);
+
+    switch (command) {
+      case 'transcribe':
+        return await transcribeCommand(args, flags);
+      case 'scan':
+        return await scanCommand(args, flags);
+      case 'models':
+        return await modelsCommand(args);
+      case 'languages':
+        return languagesCommand();
+      case 'postprocess':
+        return await postprocessCommand(args);
+      case 'convert':
+        return await convertCommand(args, flags);
+      case 'watch':
+        return await watchCommand(flags);
+      case 'serve':
+        return await serveCommand(flags);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      return 2;
+    }
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}`);
+      console.error('Run "whispernode help" for usage.');
+      return 2;
+    }
+    console.error('An error occurred:', error);
+    return 1;
+  }
+}
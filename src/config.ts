@@ -1,15 +1,31 @@
 import path from 'path';
 import fs from 'fs-extra';
-import dotenv from 'dotenv';
 import os from 'os';
+import type { EmbedMode, ExistingSubtitlesMode } from './embed';
 
-// Load environment variables from .env file if it exists
-dotenv.config();
+// How the language of a video is chosen (see LANGUAGE_DETECTION_METHOD in .env.example)
+export const LANGUAGE_DETECTION_METHODS = ['manual', 'enhanced', 'auto', 'whisper-only'] as const;
+export type LanguageDetectionMethod = typeof LANGUAGE_DETECTION_METHODS[number];
 
-interface Config {
+// A language map as written in a config file: a "pattern:lang,..." string,
+// a { pattern: lang } object or a list of { pattern, language } entries
+export type LanguageMapInput = string | Record<string, string> | { pattern: string; language: string }[];
+
+export interface Config {
   // Directories
   videosDir: string;
   outputDir: string;
+  // State files, stored in outputDir when null (see getStatePath)
+  manifestPath: string | null; // Records what was processed, for incremental runs
+  jobStorePath: string | null; // Durable job queue, so interrupted runs can resume
+  reportPath: string | null;   // JSON summary of the last run
+  audioCacheDir: string | null; // Decoded WAV files kept for later runs
+  
+  // Directory scanning
+  includePatterns: string[];   // Glob patterns relative to videosDir, e.g. 'show/**/*.mkv'
+  excludePatterns: string[];   // Glob patterns for files/folders to skip
+  maxScanDepth: number;        // How many folder levels below videosDir to scan
+  followSymlinks: boolean;
   
   // Whisper model configuration
   modelName: string;
@@ -18,6 +34,7 @@ interface Config {
   // AMD GPU specific options
   useAmdGpu: boolean;
   maxConcurrentProcesses: number;
+  jobTimeoutMinutes: number; // A whisper.cpp run is killed and fails after this long, 0 for no limit
   
   // Output formats
   formats: {
@@ -28,13 +45,34 @@ interface Config {
     words: boolean;
     lrc: boolean;
     csv: boolean;
+    // Converted from the post-processed subtitles (see formats.ts)
+    ass: boolean;
+    ssa: boolean;
+    ttml: boolean;
+    dfxp: boolean;
+    sbv: boolean;
+    stl: boolean;
   };
+  assStyle: string; // ASS/SSA style overrides, e.g. "Fontname=Verdana,Fontsize=48"
+  embedSubtitles: EmbedMode; // Add the subtitles to the video as soft tracks (see embed.ts)
   
   // Processing options
   wordTimestamps: boolean;
   splitOnWord: boolean;
   translateToEnglish: boolean;
   removeWavFileAfterTranscription: boolean;
+  audioCache: boolean;    // Keep the decoded audio of each video for later runs (see audioCache.ts)
+  audioCacheMaxMb: number; // Least recently used audio is removed above this size
+  
+  // Translation of the finished subtitles (see translate.ts)
+  translationTargets: string[]; // Languages to translate into, written as name.<lang>.srt etc.
+  translationBackend: string;   // Registered translator, 'libretranslate' or 'mock'
+  translationUrl: string;       // Address of the LibreTranslate server
+  
+  // Retry options
+  maxRetries: number;        // Retries per video after the first attempt
+  retryBaseDelayMs: number;  // Doubled after every failed retry
+  retryMaxDelayMs: number;
   
   // Language options
   defaultLanguage: string | null; // Language code like 'en', 'ar', 'fr', etc.
@@ -42,69 +80,196 @@ interface Config {
   languageMap: Record<string, string>; // Map video filename patterns to languages
   
   // Language detection method
-  languageDetectionMethod: 'manual' | 'enhanced' | 'auto' | 'whisper-only';
+  languageDetectionMethod: LanguageDetectionMethod;
+  useContainerLanguage: boolean;             // Language tags of the audio and subtitle tracks come before the filename
+  existingSubtitles: ExistingSubtitlesMode;  // When the video already has subtitles in the language (see embed.ts)
+  audioLanguageDetection: boolean;           // Let Whisper identify the language from samples of the audio (see languageId.ts)
+  minLanguageConfidence: number;             // Percent probability the identified language needs
+  languageSampleWindows: number;             // 30 second windows sampled across the audio
+  multiLanguage: boolean;                    // Detect the language of each chunk of the audio (see multilang.ts)
+  languageChunkSeconds: number;              // Length of the chunks whose language is detected
+  multiLanguageCodes: string[];              // Languages the video may switch between, any if empty
+  
+  // Chunked transcription of long media (see chunking.ts)
+  chunkLongMedia: boolean;
+  chunkMinutes: number;        // Length of the chunks
+  chunkOverlapSeconds: number; // Audio each chunk shares with its neighbours
+  chunkConcurrency: number;    // Chunks of one video transcribed at once
+  
+  // Voice activity detection: only the speech is transcribed (see vad.ts)
+  vad: boolean;
+  vadThresholdDb: number;  // How much louder than the noise floor speech is
+  vadPaddingMs: number;    // Audio kept before and after each speech region
+  vadMinSilenceMs: number; // Shorter pauses stay inside a speech region
+  vadMinSpeechMs: number;  // Shorter sounds are not speech
   
   // Subtitle post-processing
   deduplicateSubtitles: boolean;
   maxDuplicates: number;
+  
+  // Cue layout and reading speed
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  maxCueDurationMs: number;
+  minCueGapMs: number;
+  maxCharsPerSecond: number;
+  
+  // Hallucination filter (see filterHallucinations)
+  filterHallucinations: boolean;
+  repeatSimilarity: number;        // Percent of matching characters for a cue to repeat the previous one
+  maxPhraseRepeats: number;        // Times a phrase may loop inside one cue
+  hallucinationPhrases: string[];  // Phrases removed in addition to the built-in ones
+  maxSpeechCharsPerSecond: number; // Cues with faster speech are made up
+  maxMsPerChar: number;            // Cues with slower speech are made up
 }
 
 // Determine optimal concurrency based on system
 const cpuCores = os.cpus().length;
 const defaultConcurrency = Math.max(1, Math.floor(cpuCores * 0.75)); // Use 75% of available cores
 
-// Default configuration
-const defaultConfig: Config = {
-  videosDir: process.env.VIDEOS_DIR || path.join(process.cwd(), 'videos'),
-  outputDir: process.env.OUTPUT_DIR || path.join(process.cwd(), 'videos'), // Save alongside videos by default
-  
-  modelName: process.env.WHISPER_MODEL || 'base',
-  withCuda: process.env.USE_CUDA === 'false' ? false : true, // Default to true unless explicitly set to false
-  
-  // AMD GPU support
-  useAmdGpu: process.env.USE_AMD_GPU === 'true' || false,
-  maxConcurrentProcesses: parseInt(process.env.MAX_CONCURRENT_PROCESSES || defaultConcurrency.toString(), 10),
-  
-  formats: {
-    srt: true,
-    vtt: true,
-    json: process.env.OUTPUT_JSON === 'true' || false,
-    text: process.env.OUTPUT_TEXT === 'true' || false,
-    words: process.env.OUTPUT_WORDS === 'true' || false,
-    lrc: process.env.OUTPUT_LRC === 'true' || false,
-    csv: process.env.OUTPUT_CSV === 'true' || false,
-  },
-  
-  wordTimestamps: process.env.WORD_TIMESTAMPS === 'true' ? true : false,
-  splitOnWord: process.env.SPLIT_ON_WORD === 'true' ? true : false,
-  translateToEnglish: process.env.TRANSLATE_TO_ENGLISH === 'true' || false,
-  removeWavFileAfterTranscription: process.env.REMOVE_WAV_FILE === 'false' ? false : true,
-  
-  // Language configuration
-  defaultLanguage: process.env.DEFAULT_LANGUAGE || null,
-  detectLanguage: process.env.DETECT_LANGUAGE !== 'false',
-  languageMap: parseLanguageMap(process.env.LANGUAGE_MAP),
-  
-  // Language detection method: 'manual', 'enhanced', 'auto', 'whisper-only'
-  languageDetectionMethod: (process.env.LANGUAGE_DETECTION_METHOD || 'manual') as 'manual' | 'enhanced' | 'auto' | 'whisper-only',
-  
-  // Subtitle post-processing
-  deduplicateSubtitles: process.env.DEDUPLICATE_SUBTITLES === 'false' ? false : true,
-  maxDuplicates: parseInt(process.env.MAX_DUPLICATES || '1', 10),
-};
+/**
+ * Build a configuration from environment variables
+ * Reads the given environment only, .env files are loaded by the CLI entry point
+ * @param env The environment to read (default process.env)
+ */
+export function createConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  return {
+    videosDir: env.VIDEOS_DIR || path.join(process.cwd(), 'videos'),
+    outputDir: env.OUTPUT_DIR || path.join(process.cwd(), 'videos'), // Save alongside videos by default
+    manifestPath: env.MANIFEST_PATH || null,
+    jobStorePath: env.JOB_STORE_PATH || null,
+    reportPath: env.REPORT_PATH || null,
+    audioCacheDir: env.AUDIO_CACHE_DIR || null,
+    
+    // Recursive scanning (unlimited depth unless SCAN_MAX_DEPTH is set)
+    includePatterns: parseList(env.SCAN_INCLUDE),
+    excludePatterns: parseList(env.SCAN_EXCLUDE),
+    maxScanDepth: env.SCAN_MAX_DEPTH ? parseInt(env.SCAN_MAX_DEPTH, 10) : Infinity,
+    followSymlinks: env.FOLLOW_SYMLINKS === 'true' || false,
+    
+    modelName: env.WHISPER_MODEL || 'base',
+    withCuda: env.USE_CUDA === 'false' ? false : true, // Default to true unless explicitly set to false
+    
+    // AMD GPU support
+    useAmdGpu: env.USE_AMD_GPU === 'true' || false,
+    maxConcurrentProcesses: parseInt(env.MAX_CONCURRENT_PROCESSES || defaultConcurrency.toString(), 10),
+    jobTimeoutMinutes: parseInt(env.JOB_TIMEOUT_MINUTES || '0', 10),
+    
+    formats: {
+      srt: true,
+      vtt: true,
+      json: env.OUTPUT_JSON === 'true' || false,
+      text: env.OUTPUT_TEXT === 'true' || false,
+      words: env.OUTPUT_WORDS === 'true' || false,
+      lrc: env.OUTPUT_LRC === 'true' || false,
+      csv: env.OUTPUT_CSV === 'true' || false,
+      ass: env.OUTPUT_ASS === 'true' || false,
+      ssa: env.OUTPUT_SSA === 'true' || false,
+      ttml: env.OUTPUT_TTML === 'true' || false,
+      dfxp: env.OUTPUT_DFXP === 'true' || false,
+      sbv: env.OUTPUT_SBV === 'true' || false,
+      stl: env.OUTPUT_STL === 'true' || false,
+    },
+    assStyle: env.ASS_STYLE || '',
+    embedSubtitles: (env.EMBED_SUBTITLES || 'off') as EmbedMode,
+    
+    wordTimestamps: env.WORD_TIMESTAMPS === 'true' ? true : false,
+    splitOnWord: env.SPLIT_ON_WORD === 'true' ? true : false,
+    translateToEnglish: env.TRANSLATE_TO_ENGLISH === 'true' || false,
+    removeWavFileAfterTranscription: env.REMOVE_WAV_FILE === 'false' ? false : true,
+    audioCache: env.AUDIO_CACHE === 'true' || false,
+    audioCacheMaxMb: parseInt(env.AUDIO_CACHE_MAX_MB || '5000', 10),
+    
+    // Translation: off unless target languages are given
+    translationTargets: parseList(env.TRANSLATE_TO),
+    translationBackend: env.TRANSLATION_BACKEND || 'libretranslate',
+    translationUrl: env.TRANSLATION_URL || 'http://localhost:5000',
+    
+    // Retry with exponential backoff: 5s, 10s, 20s, ... up to 5 minutes
+    maxRetries: parseInt(env.MAX_RETRIES || '2', 10),
+    retryBaseDelayMs: parseInt(env.RETRY_BASE_DELAY_MS || '5000', 10),
+    retryMaxDelayMs: parseInt(env.RETRY_MAX_DELAY_MS || '300000', 10),
+    
+    // Language configuration
+    defaultLanguage: env.DEFAULT_LANGUAGE || null,
+    detectLanguage: env.DETECT_LANGUAGE !== 'false',
+    languageMap: parseLanguageMap(env.LANGUAGE_MAP),
+    
+    // Language detection method: 'manual', 'enhanced', 'auto', 'whisper-only'
+    // (validated together with the rest of the configuration by validateConfig)
+    languageDetectionMethod: (env.LANGUAGE_DETECTION_METHOD || 'manual') as LanguageDetectionMethod,
+    useContainerLanguage: env.USE_CONTAINER_LANGUAGE === 'false' ? false : true,
+    existingSubtitles: (env.EXISTING_SUBTITLES || 'ignore') as ExistingSubtitlesMode,
+    audioLanguageDetection: env.AUDIO_LANGUAGE_DETECTION === 'true' || false,
+    minLanguageConfidence: parseInt(env.MIN_LANGUAGE_CONFIDENCE || '70', 10),
+    languageSampleWindows: parseInt(env.LANGUAGE_SAMPLE_WINDOWS || '3', 10),
+    multiLanguage: env.MULTI_LANGUAGE === 'true' || false,
+    languageChunkSeconds: parseInt(env.LANGUAGE_CHUNK_SECONDS || '30', 10),
+    multiLanguageCodes: parseList(env.MULTI_LANGUAGE_CODES),
+    
+    // Chunked transcription: 20 minute chunks overlapping by 10 seconds
+    chunkLongMedia: env.CHUNK_LONG_MEDIA === 'true' || false,
+    chunkMinutes: parseInt(env.CHUNK_MINUTES || '20', 10),
+    chunkOverlapSeconds: parseInt(env.CHUNK_OVERLAP_SECONDS || '10', 10),
+    chunkConcurrency: parseInt(env.CHUNK_CONCURRENCY || '1', 10),
+    
+    // Voice activity detection: speech is 12 dB above the noise floor, pauses
+    // under a second are kept, 300 ms of audio around the speech
+    vad: env.VAD === 'true' || false,
+    vadThresholdDb: parseInt(env.VAD_THRESHOLD_DB || '12', 10),
+    vadPaddingMs: parseInt(env.VAD_PADDING_MS || '300', 10),
+    vadMinSilenceMs: parseInt(env.VAD_MIN_SILENCE_MS || '1000', 10),
+    vadMinSpeechMs: parseInt(env.VAD_MIN_SPEECH_MS || '200', 10),
+    
+    // Subtitle post-processing
+    deduplicateSubtitles: env.DEDUPLICATE_SUBTITLES === 'false' ? false : true,
+    maxDuplicates: parseInt(env.MAX_DUPLICATES || '1', 10),
+    
+    // Cue layout and reading speed: two lines of 42 characters, at most 7s and 17 characters per second
+    maxCharsPerLine: parseInt(env.MAX_CHARS_PER_LINE || '42', 10),
+    maxLinesPerCue: parseInt(env.MAX_LINES_PER_CUE || '2', 10),
+    maxCueDurationMs: parseInt(env.MAX_CUE_DURATION_MS || '7000', 10),
+    minCueGapMs: parseInt(env.MIN_CUE_GAP_MS || '80', 10),
+    maxCharsPerSecond: parseInt(env.MAX_CHARS_PER_SECOND || '17', 10),
+    
+    // Hallucination filter: nobody speaks faster than 50 characters per second,
+    // or takes 2 seconds per character
+    filterHallucinations: env.FILTER_HALLUCINATIONS === 'false' ? false : true,
+    repeatSimilarity: parseInt(env.REPEAT_SIMILARITY || '85', 10),
+    maxPhraseRepeats: parseInt(env.MAX_PHRASE_REPEATS || '3', 10),
+    hallucinationPhrases: parseList(env.HALLUCINATION_PHRASES),
+    maxSpeechCharsPerSecond: parseInt(env.MAX_SPEECH_CPS || '50', 10),
+    maxMsPerChar: parseInt(env.MAX_MS_PER_CHAR || '2000', 10),
+  };
+}
 
 /**
- * Parse the language map from the environment variable
+ * Parse the language map from the environment variable or a config file
  * Format: "pattern1:language1,pattern2:language2"
  * Example: "arabic:ar,english:en,Marina:en"
+ * Config files may also use { "arabic": "ar" } or [{ "pattern": "arabic", "language": "ar" }]
  */
-function parseLanguageMap(mapString: string | undefined): Record<string, string> {
+export function parseLanguageMap(mapString: LanguageMapInput | undefined): Record<string, string> {
   const result: Record<string, string> = {};
   
   if (!mapString) {
     return result;
   }
   
+  if (Array.isArray(mapString)) {
+    for (const { pattern, language } of mapString) {
+      result[pattern.trim()] = language.trim().toLowerCase();
+    }
+    return result;
+  }
+  
+  if (typeof mapString === 'object') {
+    for (const [pattern, language] of Object.entries(mapString)) {
+      result[pattern.trim()] = language.trim().toLowerCase();
+    }
+    return result;
+  }
+  
   const pairs = mapString.split(',');
   for (const pair of pairs) {
     const [pattern, language] = pair.split(':');
@@ -116,6 +281,18 @@ function parseLanguageMap(mapString: string | undefined): Record<string, string>
   return result;
 }
 
+/**
+ * Parse a comma-separated list from an environment variable
+ * Example: "*.mkv,*.mp4"
+ */
+export function parseList(listString: string | undefined): string[] {
+  if (!listString) {
+    return [];
+  }
+  
+  return listString.split(',').map(item => item.trim()).filter(Boolean);
+}
+
 // List of supported video file extensions
 export const SUPPORTED_EXTENSIONS = [
   '.mp4', '.avi', '.mov', '.mkv',
@@ -123,6 +300,38 @@ export const SUPPORTED_EXTENSIONS = [
   '.mp3', '.wav', '.ogg', '.aac', // Audio formats are also supported
 ];
 
+// Default file names of the state files in outputDir
+const STATE_FILE_NAMES = {
+  manifestPath: '.whispernode-manifest.json',
+  jobStorePath: '.whispernode-jobs.json',
+  reportPath: 'whispernode-report.json',
+  audioCacheDir: '.whispernode-audio',
+};
+
+/**
+ * Get the path of a state file, defaulting to a file in the (final) outputDir
+ */
+export function getStatePath(key: keyof typeof STATE_FILE_NAMES): string {
+  return config[key] || path.join(config.outputDir, STATE_FILE_NAMES[key]);
+}
+
+// File extension written for each output format
+export const FORMAT_EXTENSIONS: Record<keyof Config['formats'], string> = {
+  srt: '.srt',
+  vtt: '.vtt',
+  json: '.json',
+  text: '.txt',
+  words: '.wts',
+  lrc: '.lrc',
+  csv: '.csv',
+  ass: '.ass',
+  ssa: '.ssa',
+  ttml: '.ttml',
+  dfxp: '.dfxp',
+  sbv: '.sbv',
+  stl: '.stl',
+};
+
 // Available whisper models
 export const AVAILABLE_MODELS = [
   'tiny',
@@ -140,132 +349,167 @@ export const AVAILABLE_MODELS = [
   'large-v3-turbo',
 ];
 
-// Supported language codes for Whisper
-export const LANGUAGE_CODES = [
-  'auto', // Auto detect
-  'en',   // English
-  'zh',   // Chinese
-  'de',   // German
-  'es',   // Spanish
-  'ru',   // Russian
-  'ko',   // Korean
-  'fr',   // French
-  'ja',   // Japanese
-  'pt',   // Portuguese
-  'tr',   // Turkish
-  'pl',   // Polish
-  'ca',   // Catalan
-  'nl',   // Dutch
-  'ar',   // Arabic
-  'sv',   // Swedish
-  'it',   // Italian
-  'id',   // Indonesian
-  'hi',   // Hindi
-  'fi',   // Finnish
-  'vi',   // Vietnamese
-  'he',   // Hebrew
-  'uk',   // Ukrainian
-  'el',   // Greek
-  'ms',   // Malay
-  'cs',   // Czech
-  'ro',   // Romanian
-  'da',   // Danish
-  'hu',   // Hungarian
-  'ta',   // Tamil
-  'no',   // Norwegian
-  'th',   // Thai
-  'ur',   // Urdu
-  'hr',   // Croatian
-  'bg',   // Bulgarian
-  'lt',   // Lithuanian
-  'la',   // Latin
-  'mi',   // Maori
-  'ml',   // Malayalam
-  'cy',   // Welsh
-  'sk',   // Slovak
-  'te',   // Telugu
-  'fa',   // Persian
-  'lv',   // Latvian
-  'bn',   // Bengali
-  'sr',   // Serbian
-  'az',   // Azerbaijani
-  'sl',   // Slovenian
-  'kn',   // Kannada
-  'et',   // Estonian
-  'mk',   // Macedonian
-  'br',   // Breton
-  'eu',   // Basque
-  'is',   // Icelandic
-  'hy',   // Armenian
-  'ne',   // Nepali
-  'mn',   // Mongolian
-  'bs',   // Bosnian
-  'kk',   // Kazakh
-  'sq',   // Albanian
-  'sw',   // Swahili
-  'gl',   // Galician
-  'mr',   // Marathi
-  'pa',   // Punjabi
-  'si',   // Sinhala
-  'km',   // Khmer
-  'sn',   // Shona
-  'yo',   // Yoruba
-  'so',   // Somali
-  'af',   // Afrikaans
-  'oc',   // Occitan
-  'ka',   // Georgian
-  'be',   // Belarusian
-  'tg',   // Tajik
-  'sd',   // Sindhi
-  'gu',   // Gujarati
-  'am',   // Amharic
-  'yi',   // Yiddish
-  'lo',   // Lao
-  'uz',   // Uzbek
-  'fo',   // Faroese
-  'ht',   // Haitian Creole
-  'ps',   // Pashto
-  'tk',   // Turkmen
-  'nn',   // Nynorsk
-  'mt',   // Maltese
-  'sa',   // Sanskrit
-  'lb',   // Luxembourgish
-  'my',   // Myanmar
-  'bo',   // Tibetan
-  'tl',   // Tagalog
-  'mg',   // Malagasy
-  'as',   // Assamese
-  'tt',   // Tatar
-  'haw',  // Hawaiian
-  'ln',   // Lingala
-  'ha',   // Hausa
-  'ba',   // Bashkir
-  'jw',   // Javanese
-  'su',   // Sundanese
-  'yue',  // Cantonese
-];
+// Supported language codes for Whisper, with their names
+export const LANGUAGE_NAMES: Record<string, string> = {
+  auto: 'Auto detect',
+  en: 'English',
+  zh: 'Chinese',
+  de: 'German',
+  es: 'Spanish',
+  ru: 'Russian',
+  ko: 'Korean',
+  fr: 'French',
+  ja: 'Japanese',
+  pt: 'Portuguese',
+  tr: 'Turkish',
+  pl: 'Polish',
+  ca: 'Catalan',
+  nl: 'Dutch',
+  ar: 'Arabic',
+  sv: 'Swedish',
+  it: 'Italian',
+  id: 'Indonesian',
+  hi: 'Hindi',
+  fi: 'Finnish',
+  vi: 'Vietnamese',
+  he: 'Hebrew',
+  uk: 'Ukrainian',
+  el: 'Greek',
+  ms: 'Malay',
+  cs: 'Czech',
+  ro: 'Romanian',
+  da: 'Danish',
+  hu: 'Hungarian',
+  ta: 'Tamil',
+  no: 'Norwegian',
+  th: 'Thai',
+  ur: 'Urdu',
+  hr: 'Croatian',
+  bg: 'Bulgarian',
+  lt: 'Lithuanian',
+  la: 'Latin',
+  mi: 'Maori',
+  ml: 'Malayalam',
+  cy: 'Welsh',
+  sk: 'Slovak',
+  te: 'Telugu',
+  fa: 'Persian',
+  lv: 'Latvian',
+  bn: 'Bengali',
+  sr: 'Serbian',
+  az: 'Azerbaijani',
+  sl: 'Slovenian',
+  kn: 'Kannada',
+  et: 'Estonian',
+  mk: 'Macedonian',
+  br: 'Breton',
+  eu: 'Basque',
+  is: 'Icelandic',
+  hy: 'Armenian',
+  ne: 'Nepali',
+  mn: 'Mongolian',
+  bs: 'Bosnian',
+  kk: 'Kazakh',
+  sq: 'Albanian',
+  sw: 'Swahili',
+  gl: 'Galician',
+  mr: 'Marathi',
+  pa: 'Punjabi',
+  si: 'Sinhala',
+  km: 'Khmer',
+  sn: 'Shona',
+  yo: 'Yoruba',
+  so: 'Somali',
+  af: 'Afrikaans',
+  oc: 'Occitan',
+  ka: 'Georgian',
+  be: 'Belarusian',
+  tg: 'Tajik',
+  sd: 'Sindhi',
+  gu: 'Gujarati',
+  am: 'Amharic',
+  yi: 'Yiddish',
+  lo: 'Lao',
+  uz: 'Uzbek',
+  fo: 'Faroese',
+  ht: 'Haitian Creole',
+  ps: 'Pashto',
+  tk: 'Turkmen',
+  nn: 'Nynorsk',
+  mt: 'Maltese',
+  sa: 'Sanskrit',
+  lb: 'Luxembourgish',
+  my: 'Myanmar',
+  bo: 'Tibetan',
+  tl: 'Tagalog',
+  mg: 'Malagasy',
+  as: 'Assamese',
+  tt: 'Tatar',
+  haw: 'Hawaiian',
+  ln: 'Lingala',
+  ha: 'Hausa',
+  ba: 'Bashkir',
+  jw: 'Javanese',
+  su: 'Sundanese',
+  yue: 'Cantonese',
+};
 
-// Set OpenMP environment variables for optimal CPU performance
-if (!defaultConfig.useAmdGpu) {
-  // If not using AMD GPU, maximize CPU utilization
-  process.env.OMP_NUM_THREADS = cpuCores.toString();
-  process.env.OMP_DYNAMIC = 'true';
-  process.env.WHISPER_THREADS = cpuCores.toString();
-} else {
-  // Using AMD GPU - balance CPU resources
-  process.env.OMP_NUM_THREADS = Math.max(2, Math.floor(cpuCores / 4)).toString();
-}
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_NAMES);
 
-// Set environment variables for CUDA before importing nodewhisper
-if (defaultConfig.withCuda) {
-  process.env.WHISPER_CUDA = '1';
-  process.env.WHISPER_CUDA_DEVICE = '0';
-  console.log('🚀 CUDA enabled for Whisper processing');
-}
+// ISO 639-2 (bibliographic) codes of the Whisper languages, used to tag
+// subtitle tracks; Cantonese has no code of its own and is tagged Chinese
+export const ISO_639_2_CODES: Record<string, string> = {
+  en: 'eng', zh: 'chi', de: 'ger', es: 'spa', ru: 'rus', ko: 'kor', fr: 'fre', ja: 'jpn', pt: 'por', tr: 'tur',
+  pl: 'pol', ca: 'cat', nl: 'dut', ar: 'ara', sv: 'swe', it: 'ita', id: 'ind', hi: 'hin', fi: 'fin', vi: 'vie',
+  he: 'heb', uk: 'ukr', el: 'gre', ms: 'may', cs: 'cze', ro: 'rum', da: 'dan', hu: 'hun', ta: 'tam', no: 'nor',
+  th: 'tha', ur: 'urd', hr: 'hrv', bg: 'bul', lt: 'lit', la: 'lat', mi: 'mao', ml: 'mal', cy: 'wel', sk: 'slo',
+  te: 'tel', fa: 'per', lv: 'lav', bn: 'ben', sr: 'srp', az: 'aze', sl: 'slv', kn: 'kan', et: 'est', mk: 'mac',
+  br: 'bre', eu: 'baq', is: 'ice', hy: 'arm', ne: 'nep', mn: 'mon', bs: 'bos', kk: 'kaz', sq: 'alb', sw: 'swa',
+  gl: 'glg', mr: 'mar', pa: 'pan', si: 'sin', km: 'khm', sn: 'sna', yo: 'yor', so: 'som', af: 'afr', oc: 'oci',
+  ka: 'geo', be: 'bel', tg: 'tgk', sd: 'snd', gu: 'guj', am: 'amh', yi: 'yid', lo: 'lao', uz: 'uzb', fo: 'fao',
+  ht: 'hat', ps: 'pus', tk: 'tuk', nn: 'nno', mt: 'mlt', sa: 'san', lb: 'ltz', my: 'bur', bo: 'tib', tl: 'tgl',
+  mg: 'mlg', as: 'asm', tt: 'tat', haw: 'haw', ln: 'lin', ha: 'hau', ba: 'bak', jw: 'jav', su: 'sun', yue: 'chi',
+};
 
-// Suppress nodejs-whisper internal warnings and errors
-process.env.NODE_NO_WARNINGS = '1';
-process.env.WHISPER_SUPPRESS_WARNINGS = '1';
+/**
+ * Set the environment variables whisper.cpp and nodejs-whisper read: OpenMP
+ * threads, GPU selection and warning suppression.
+ * Call before transcribing; nothing is changed when this module is imported.
+ * @param cfg The configuration to initialise for
+ */
+export function initializeEnvironment(cfg: Config = config): void {
+  // Set OpenMP environment variables for optimal CPU performance
+  if (!cfg.useAmdGpu) {
+    // If not using AMD GPU, maximize CPU utilization
+    process.env.OMP_NUM_THREADS = cpuCores.toString();
+    process.env.OMP_DYNAMIC = 'true';
+    process.env.WHISPER_THREADS = cpuCores.toString();
+  } else {
+    // Using AMD GPU - balance CPU resources
+    process.env.OMP_NUM_THREADS = Math.max(2, Math.floor(cpuCores / 4)).toString();
+    
+    // Only announce the GPU the first time
+    if (process.env.HIP_VISIBLE_DEVICES !== '0') {
+      console.log('🚀 AMD GPU processing enabled');
+    }
+    process.env.HSA_OVERRIDE_GFX_VERSION = '10.3.0';
+    process.env.ROCR_VISIBLE_DEVICES = '0';
+    process.env.HIP_VISIBLE_DEVICES = '0';
+  }
+  
+  // Set environment variables for CUDA before running nodewhisper
+  if (cfg.withCuda) {
+    if (process.env.WHISPER_CUDA !== '1') {
+      console.log('🚀 CUDA enabled for Whisper processing');
+    }
+    process.env.WHISPER_CUDA = '1';
+    process.env.WHISPER_CUDA_DEVICE = '0';
+  }
+  
+  // Suppress nodejs-whisper internal warnings and errors
+  process.env.NODE_NO_WARNINGS = '1';
+  process.env.WHISPER_SUPPRESS_WARNINGS = '1';
+}
 
-// Export the configuration
-export const config: Config = defaultConfig; 
\ No newline at end of file
+// The active configuration: environment variables, then config file and CLI flags
+export const config: Config = createConfig();
@@ -0,0 +1,400 @@
+import path from 'path';
+import fs from 'fs-extra';
+import YAML from 'yaml';
+import {
+  config,
+  Config,
+  AVAILABLE_MODELS,
+  LANGUAGE_CODES,
+  LANGUAGE_DETECTION_METHODS,
+  LanguageMapInput,
+  parseLanguageMap,
+} from './config';
+import { parseAssStyle } from './formats';
+import { EMBED_MODES, EXISTING_SUBTITLE_MODES } from './embed';
+import { getTranslationBackends } from './translate';
+
+type FieldType = 'string' | 'boolean' | 'integer' | 'stringList' | 'languageMap' | 'formats' | 'assStyle' | 'translationBackend';
+
+interface FieldSchema {
+  type: FieldType;
+  choices?: readonly string[];
+  min?: number;
+  max?: number;
+  nullable?: boolean;
+  unbounded?: boolean; // Infinity is allowed (no limit)
+  folder?: boolean;    // May be set in per-folder override files
+}
+
+// Invalid configuration file or setting, reported with every problem found
+export class ConfigError extends Error {
+  constructor(source: string, public readonly problems: string[]) {
+    super(`Invalid configuration in ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Config files looked up in the working directory when none is given
+export const CONFIG_FILE_NAMES = ['whispernode.config.json', 'whispernode.config.yaml', 'whispernode.config.yml'];
+
+// Settings holding paths, resolved relative to the config file that sets them
+const PATH_SETTINGS: (keyof Config)[] = ['videosDir', 'outputDir', 'manifestPath', 'jobStorePath', 'reportPath', 'audioCacheDir'];
+
+// Per-folder override files, applied to the videos in that folder and its subfolders
+export const FOLDER_CONFIG_FILE_NAMES = ['.whispernode.json', '.whispernode.yaml', '.whispernode.yml'];
+
+const CONFIG_SCHEMA: Record<keyof Config, FieldSchema> = {
+  videosDir: { type: 'string' },
+  outputDir: { type: 'string' },
+  manifestPath: { type: 'string', nullable: true },
+  jobStorePath: { type: 'string', nullable: true },
+  reportPath: { type: 'string', nullable: true },
+  audioCacheDir: { type: 'string', nullable: true },
+  includePatterns: { type: 'stringList' },
+  excludePatterns: { type: 'stringList' },
+  maxScanDepth: { type: 'integer', min: 0, unbounded: true },
+  followSymlinks: { type: 'boolean' },
+  modelName: { type: 'string', choices: AVAILABLE_MODELS, folder: true },
+  withCuda: { type: 'boolean' },
+  useAmdGpu: { type: 'boolean' },
+  maxConcurrentProcesses: { type: 'integer', min: 1 },
+  jobTimeoutMinutes: { type: 'integer', min: 0, folder: true },
+  formats: { type: 'formats', folder: true },
+  assStyle: { type: 'assStyle', folder: true },
+  embedSubtitles: { type: 'string', choices: EMBED_MODES, folder: true },
+  wordTimestamps: { type: 'boolean', folder: true },
+  splitOnWord: { type: 'boolean', folder: true },
+  translateToEnglish: { type: 'boolean', folder: true },
+  removeWavFileAfterTranscription: { type: 'boolean', folder: true },
+  audioCache: { type: 'boolean' },
+  audioCacheMaxMb: { type: 'integer', min: 1 },
+  translationTargets: { type: 'stringList', choices: LANGUAGE_CODES, folder: true },
+  translationBackend: { type: 'translationBackend', folder: true },
+  translationUrl: { type: 'string', folder: true },
+  maxRetries: { type: 'integer', min: 0, folder: true },
+  retryBaseDelayMs: { type: 'integer', min: 0, folder: true },
+  retryMaxDelayMs: { type: 'integer', min: 0, folder: true },
+  defaultLanguage: { type: 'string', choices: LANGUAGE_CODES, nullable: true, folder: true },
+  detectLanguage: { type: 'boolean', folder: true },
+  languageMap: { type: 'languageMap', folder: true },
+  languageDetectionMethod: { type: 'string', choices: LANGUAGE_DETECTION_METHODS, folder: true },
+  useContainerLanguage: { type: 'boolean', folder: true },
+  existingSubtitles: { type: 'string', choices: EXISTING_SUBTITLE_MODES, folder: true },
+  audioLanguageDetection: { type: 'boolean', folder: true },
+  minLanguageConfidence: { type: 'integer', min: 0, max: 100, folder: true },
+  languageSampleWindows: { type: 'integer', min: 1, max: 10, folder: true },
+  multiLanguage: { type: 'boolean', folder: true },
+  languageChunkSeconds: { type: 'integer', min: 5, max: 600, folder: true },
+  multiLanguageCodes: { type: 'stringList', choices: LANGUAGE_CODES, folder: true },
+  chunkLongMedia: { type: 'boolean', folder: true },
+  chunkMinutes: { type: 'integer', min: 1, folder: true },
+  chunkOverlapSeconds: { type: 'integer', min: 0, max: 300, folder: true },
+  chunkConcurrency: { type: 'integer', min: 1, folder: true },
+  vad: { type: 'boolean', folder: true },
+  vadThresholdDb: { type: 'integer', min: 1, max: 60, folder: true },
+  vadPaddingMs: { type: 'integer', min: 0, folder: true },
+  vadMinSilenceMs: { type: 'integer', min: 0, folder: true },
+  vadMinSpeechMs: { type: 'integer', min: 0, folder: true },
+  deduplicateSubtitles: { type: 'boolean', folder: true },
+  maxDuplicates: { type: 'integer', min: 0, folder: true },
+  maxCharsPerLine: { type: 'integer', min: 1, folder: true },
+  maxLinesPerCue: { type: 'integer', min: 1, folder: true },
+  maxCueDurationMs: { type: 'integer', min: 1, folder: true },
+  minCueGapMs: { type: 'integer', min: 0, folder: true },
+  maxCharsPerSecond: { type: 'integer', min: 1, folder: true },
+  filterHallucinations: { type: 'boolean', folder: true },
+  repeatSimilarity: { type: 'integer', min: 1, max: 100, folder: true },
+  maxPhraseRepeats: { type: 'integer', min: 1, folder: true },
+  hallucinationPhrases: { type: 'stringList', folder: true },
+  maxSpeechCharsPerSecond: { type: 'integer', min: 1, folder: true },
+  maxMsPerChar: { type: 'integer', min: 1, folder: true },
+};
+
+// NaN from a mistyped number in an environment variable would print as "null" in JSON
+function describe(value: unknown): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+/**
+ * Check a single value against its schema
+ * @returns A description of the problem, or null if the value is valid
+ */
+function checkValue(value: unknown, schema: FieldSchema): string | null {
+  if (value === null && schema.nullable) {
+    return null;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return `expected a string, got ${describe(value)}`;
+      }
+      if (schema.choices && !schema.choices.includes(value)) {
+        return `"${value}" is not valid, expected one of: ${schema.choices.join(', ')}`;
+      }
+      return null;
+    case 'translationBackend': {
+      // Checked when validated rather than fixed in the schema, as backends can be registered
+      const backends = getTranslationBackends();
+      if (typeof value !== 'string') {
+        return `expected a string, got ${describe(value)}`;
+      }
+      return backends.includes(value) ? null : `"${value}" is not valid, expected one of: ${backends.join(', ')}`;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `expected true or false, got ${describe(value)}`;
+    case 'integer':
+      if (value === Infinity && schema.unbounded) {
+        return null;
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < (schema.min || 0)) {
+        return `expected an integer >= ${schema.min || 0}, got ${describe(value)}`;
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return `expected an integer <= ${schema.max}, got ${describe(value)}`;
+      }
+      return null;
+    case 'stringList': {
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        return `expected a list of strings, got ${describe(value)}`;
+      }
+      const invalid = schema.choices && value.find(item => !schema.choices!.includes(item));
+      return invalid !== undefined && schema.choices
+        ? `"${invalid}" is not valid, expected any of: ${schema.choices.join(', ')}`
+        : null;
+    }
+    case 'languageMap':
+      return checkLanguageMap(value);
+    case 'assStyle':
+      if (typeof value !== 'string') {
+        return `expected a string like "Fontname=Arial,Fontsize=64", got ${describe(value)}`;
+      }
+      try {
+        parseAssStyle(value);
+        return null;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    case 'formats': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `expected an object like { "srt": true }, got ${describe(value)}`;
+      }
+      const unknown = Object.keys(value).filter(format => !(format in config.formats));
+      if (unknown.length > 0) {
+        return `unknown format(s) ${unknown.join(', ')}, expected: ${Object.keys(config.formats).join(', ')}`;
+      }
+      const notBoolean = Object.entries(value).filter(([, enabled]) => typeof enabled !== 'boolean');
+      return notBoolean.length > 0 ? `${notBoolean.map(([format]) => format).join(', ')} must be true or false` : null;
+    }
+  }
+}
+
+function checkLanguageMap(value: unknown): string | null {
+  let languages: unknown[];
+
+  if (typeof value === 'string') {
+    // Same "pattern:lang,..." format as LANGUAGE_MAP
+    return checkLanguageMap(parseLanguageMap(value));
+  } else if (Array.isArray(value)) {
+    if (!value.every(entry => entry && typeof entry.pattern === 'string' && typeof entry.language === 'string')) {
+      return 'expected a list of { pattern, language } entries';
+    }
+    languages = value.map(entry => entry.language);
+  } else if (typeof value === 'object' && value !== null) {
+    languages = Object.values(value);
+  } else {
+    return `expected "pattern:lang,..." or { pattern: lang }, got ${describe(value)}`;
+  }
+
+  const invalid = languages.filter(language => typeof language !== 'string' || !LANGUAGE_CODES.includes(language.toLowerCase()));
+  return invalid.length > 0 ? `unknown language code(s): ${invalid.join(', ')}` : null;
+}
+
+/**
+ * Validate settings read from a config file and convert them to Config values
+ * @param raw The parsed file content
+ * @param source Where the settings came from, for error messages
+ * @param folder Whether this is a per-folder override file
+ */
+export function parseConfigSettings(raw: unknown, source: string, folder: boolean = false): Partial<Config> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(source, ['expected an object of settings at the top level']);
+  }
+
+  const problems: string[] = [];
+  const settings: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    const schema = CONFIG_SCHEMA[key as keyof Config];
+
+    if (!schema) {
+      problems.push(`${key}: unknown setting`);
+      continue;
+    }
+    if (folder && !schema.folder) {
+      problems.push(`${key}: cannot be overridden per folder`);
+      continue;
+    }
+
+    const problem = checkValue(value, schema);
+    if (problem) {
+      problems.push(`${key}: ${problem}`);
+      continue;
+    }
+
+    settings[key] = schema.type === 'languageMap' ? parseLanguageMap(value as LanguageMapInput) : value;
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(source, problems);
+  }
+
+  return settings as Partial<Config>;
+}
+
+/**
+ * Validate the final configuration, after environment, file and flags were applied.
+ * Catches typos in environment variables such as LANGUAGE_DETECTION_METHOD.
+ */
+export function validateConfig(candidate: Config, source: string = 'the configuration'): void {
+  const problems: string[] = [];
+
+  for (const [key, schema] of Object.entries(CONFIG_SCHEMA)) {
+    const problem = checkValue(candidate[key as keyof Config], schema);
+    if (problem) {
+      problems.push(`${key}: ${problem}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(source, problems);
+  }
+}
+
+/**
+ * Read and validate a JSON or YAML config file
+ * @param filePath Path to the file
+ * @param folder Whether this is a per-folder override file
+ */
+export async function loadConfigFile(filePath: string, folder: boolean = false): Promise<Partial<Config>> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  let raw: unknown;
+
+  try {
+    raw = extension === '.json' ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw new ConfigError(filePath, [`could not parse file: ${error instanceof Error ? error.message : error}`]);
+  }
+
+  // An empty YAML file means "no settings"
+  return raw === null || raw === undefined ? {} : parseConfigSettings(raw, filePath, folder);
+}
+
+/**
+ * Merge settings into a configuration; formats and language maps are merged key by key
+ */
+export function mergeConfig(base: Config, settings: Partial<Config>): Config {
+  return {
+    ...base,
+    ...settings,
+    formats: { ...base.formats, ...settings.formats },
+    languageMap: { ...base.languageMap, ...settings.languageMap },
+  };
+}
+
+/**
+ * Find the config file to use: an explicit path, WHISPERNODE_CONFIG, or a
+ * whispernode.config.{json,yaml,yml} in the working directory
+ */
+export async function findConfigFile(explicitPath?: string): Promise<string | null> {
+  const configPath = explicitPath || process.env.WHISPERNODE_CONFIG;
+  if (configPath) {
+    if (!(await fs.pathExists(configPath))) {
+      throw new ConfigError(configPath, ['file not found']);
+    }
+    return configPath;
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(process.cwd(), name);
+    if (await fs.pathExists(candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply a config file on top of the environment-based configuration
+ * @returns The file that was applied, if any
+ */
+export async function applyConfigFile(explicitPath?: string): Promise<string | null> {
+  const configPath = await findConfigFile(explicitPath);
+  if (!configPath) {
+    return null;
+  }
+
+  const settings: Record<string, unknown> = await loadConfigFile(configPath);
+  for (const key of PATH_SETTINGS) {
+    if (typeof settings[key] === 'string') {
+      settings[key] = path.resolve(path.dirname(configPath), settings[key] as string);
+    }
+  }
+
+  Object.assign(config, mergeConfig(config, settings as Partial<Config>));
+  return configPath;
+}
+
+// Per-folder overrides, cached by folder (null = no override file) with the
+// modification times of the override files they were read from
+const folderOverrides = new Map<string, { stamps: string; override: Promise<Partial<Config> | null> }>();
+
+async function loadFolderOverride(dir: string): Promise<Partial<Config> | null> {
+  // Files are checked again every time, so watch mode picks up edited, added and removed overrides
+  const mtimes = await Promise.all(FOLDER_CONFIG_FILE_NAMES.map(name =>
+    fs.stat(path.join(dir, name)).then(stats => stats.mtimeMs, () => null)));
+  const stamps = mtimes.join(',');
+
+  const cached = folderOverrides.get(dir);
+  if (cached && cached.stamps === stamps) {
+    return cached.override;
+  }
+
+  const index = mtimes.findIndex(mtime => mtime !== null);
+  const override = index === -1 ? Promise.resolve(null) : loadConfigFile(path.join(dir, FOLDER_CONFIG_FILE_NAMES[index]), true);
+  folderOverrides.set(dir, { stamps, override });
+  return override;
+}
+
+/**
+ * Get the configuration for one video: the global configuration with the
+ * override files of its folder and parent folders (up to videosDir) applied,
+ * deeper folders winning
+ * @param videoPath Path to the video
+ * @param baseConfig The configuration the overrides are applied to
+ */
+export async function resolveVideoConfig(videoPath: string, baseConfig: Config = config): Promise<Config> {
+  const videosDir = path.resolve(baseConfig.videosDir);
+  const folders: string[] = [];
+  let dir = path.dirname(path.resolve(videoPath));
+
+  // Collect the folders from the video's own folder up to videosDir
+  while (true) {
+    folders.unshift(dir);
+    const relative = path.relative(videosDir, dir);
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) break;
+    dir = path.dirname(dir);
+  }
+
+  let videoConfig = baseConfig;
+  for (const folder of folders) {
+    const override = await loadFolderOverride(folder);
+    if (override) {
+      videoConfig = mergeConfig(videoConfig, override);
+    }
+  }
+
+  return videoConfig;
+}
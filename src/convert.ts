@@ -0,0 +1,173 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Cue, SubtitleDocument, parseSubtitles, serializeSubtitles } from './subtitles';
+import { PostProcessOptions, processCues } from './postprocess';
+import { FilteredCue } from './hallucinations';
+import { renderSubtitles, parseAss, parseTtml, parseSbv, parseJson, writeJson } from './formats';
+
+// Formats that can be read, and the formats that can be written
+export const INPUT_FORMATS = ['srt', 'vtt', 'ass', 'ssa', 'ttml', 'dfxp', 'sbv', 'json'] as const;
+export const OUTPUT_FORMATS = [...INPUT_FORMATS, 'stl'] as const;
+export type InputFormat = typeof INPUT_FORMATS[number];
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface ConvertOptions {
+  from: InputFormat;                      // Format of the content
+  postProcess: PostProcessOptions | null; // Run the post-processing steps, or keep the cues as they are
+  language: string | null;                // Language of the subtitles, null if unknown
+  offsetMs: number;                       // Added to every time, after scaling
+  scale: number;                          // Every time is multiplied by this, e.g. 25 / 23.976
+  title: string;                          // Programme title, for EBU-STL
+  assStyle: string;                       // ASS/SSA style overrides, see parseAssStyle
+}
+
+export interface ConversionResult {
+  content: string | Buffer;
+  filtered: FilteredCue[]; // Cues the hallucination filter removed or shortened
+}
+
+// Extensions of each format; TTML is often saved as .xml
+const FORMAT_FILE_EXTENSIONS: Record<OutputFormat, string[]> = {
+  srt: ['.srt'],
+  vtt: ['.vtt'],
+  ass: ['.ass'],
+  ssa: ['.ssa'],
+  ttml: ['.ttml', '.xml'],
+  dfxp: ['.dfxp'],
+  sbv: ['.sbv'],
+  json: ['.json'],
+  stl: ['.stl'],
+};
+
+/**
+ * Find the subtitle format of a file from its extension
+ * @returns The format, or null if the extension is not a readable format
+ */
+export function detectInputFormat(filePath: string): InputFormat | null {
+  const extension = path.extname(filePath).toLowerCase();
+  return INPUT_FORMATS.find(format => FORMAT_FILE_EXTENSIONS[format].includes(extension)) || null;
+}
+
+/**
+ * The file extensions a format is read from
+ */
+export function getInputExtensions(format?: InputFormat): string[] {
+  return (format ? [format] : INPUT_FORMATS).flatMap(candidate => FORMAT_FILE_EXTENSIONS[candidate]);
+}
+
+/**
+ * The file extension a format is written with
+ */
+export function getFormatExtension(format: OutputFormat): string {
+  return FORMAT_FILE_EXTENSIONS[format][0];
+}
+
+/**
+ * Shift and stretch cue times: each time becomes time * scale + offsetMs.
+ * Cues that end up entirely before 0 are dropped, cues starting before 0 start at 0.
+ * @param cues The cues in order
+ * @param offsetMs Milliseconds to add, negative to show subtitles earlier
+ * @param scale Factor for frame rate changes, e.g. 25 / 23.976
+ */
+export function retimeCues(cues: Cue[], offsetMs: number, scale: number = 1): Cue[] {
+  return cues
+    .map(cue => ({
+      ...cue,
+      start: Math.max(0, Math.round(cue.start * scale + offsetMs)),
+      end: Math.round(cue.end * scale + offsetMs),
+    }))
+    .filter(cue => cue.end > 0);
+}
+
+/**
+ * Parse content of any readable format. SRT and WebVTT keep their identifiers,
+ * settings and WebVTT blocks; the other formats only give cue times and text.
+ */
+function readDocument(content: string, format: InputFormat): SubtitleDocument {
+  if (format === 'srt' || format === 'vtt') {
+    return parseSubtitles(content, format);
+  }
+
+  const parsers: Record<Exclude<InputFormat, 'srt' | 'vtt'>, (content: string) => Cue[]> = {
+    ass: parseAss,
+    ssa: parseAss,
+    ttml: parseTtml,
+    dfxp: parseTtml,
+    sbv: parseSbv,
+    json: parseJson,
+  };
+  const cues = parsers[format](content).sort((a, b) => a.start - b.start);
+  return { format: 'srt', header: '', blocks: [], cues, lineEnding: '\n' };
+}
+
+/**
+ * Check that content is subtitles in a format: it parses and has cues. Tells
+ * subtitle files from other files with the same extension, like JSON or XML data.
+ */
+export function isSubtitleContent(content: string, format: InputFormat): boolean {
+  try {
+    return readDocument(content, format).cues.length > 0;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Convert subtitle content from one format to another, optionally
+ * re-timing and post-processing it on the way. Nothing is transcribed.
+ * @param content The content to convert
+ * @param to The format to write
+ * @param options Source format, timing and post-processing
+ */
+export function convertSubtitles(
+  content: string,
+  to: OutputFormat,
+  options: Partial<ConvertOptions> & Pick<ConvertOptions, 'from'>
+): ConversionResult {
+  const { from, postProcess = null, language = null, offsetMs = 0, scale = 1, title = '', assStyle = '' } = options;
+  const document = readDocument(content, from);
+  let filtered: FilteredCue[] = [];
+
+  if (offsetMs !== 0 || scale !== 1) {
+    document.cues = retimeCues(document.cues, offsetMs, scale);
+  }
+  if (postProcess) {
+    ({ cues: document.cues, filtered } = processCues(document.cues, postProcess, language));
+  }
+
+  if (to === 'srt' || to === 'vtt') {
+    return { content: serializeSubtitles(document, to), filtered };
+  }
+  if (to === 'json') {
+    return { content: writeJson(document.cues, language), filtered };
+  }
+  return { content: renderSubtitles(document.cues, to, { assStyle, language, title }), filtered };
+}
+
+/**
+ * Convert a subtitle file and write the result
+ * @param inputPath The file to convert
+ * @param outputPath Where to write the converted file
+ * @param to The format to write
+ * @param options Timing and post-processing; the source format is detected from the extension if not given
+ * @returns The cues the hallucination filter removed or shortened
+ */
+export async function convertFile(
+  inputPath: string,
+  outputPath: string,
+  to: OutputFormat,
+  options: Partial<ConvertOptions> = {}
+): Promise<FilteredCue[]> {
+  const from = options.from || detectInputFormat(inputPath);
+  if (!from) {
+    throw new Error(`Cannot tell the subtitle format of ${inputPath}, expected one of: ${INPUT_FORMATS.join(', ')}`);
+  }
+
+  const content = await fs.readFile(inputPath, 'utf8');
+  const title = options.title !== undefined ? options.title : path.basename(inputPath, path.extname(inputPath));
+  const result = convertSubtitles(content, to, { ...options, from, title });
+
+  await fs.ensureDir(path.dirname(outputPath));
+  await fs.writeFile(outputPath, result.content);
+  return result.filtered;
+}
@@ -0,0 +1,210 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ISO_639_2_CODES, LANGUAGE_CODES, LANGUAGE_NAMES } from './config';
+import { MediaInfo, MediaStream, probeMedia, toLanguageCode } from './probe';
+
+const execFileAsync = promisify(execFile);
+
+// How generated subtitles are added to the video: not at all, in a copy in
+// the output directory, or by replacing the original file
+export const EMBED_MODES = ['off', 'new-file', 'replace'] as const;
+export type EmbedMode = typeof EMBED_MODES[number];
+
+// What to do with a video that already has a subtitle track in the language
+// of the subtitles: transcribe it anyway, skip it, or extract the track
+export const EXISTING_SUBTITLE_MODES = ['ignore', 'skip', 'extract'] as const;
+export type ExistingSubtitlesMode = typeof EXISTING_SUBTITLE_MODES[number];
+
+// A subtitle file to add as a track
+export interface SubtitleTrack {
+  path: string;            // SRT or WebVTT file
+  language: string | null; // Whisper language code, null if unknown
+}
+
+// The subtitle codec each container can hold, and the file it is best made from
+interface ContainerSubtitles {
+  codec: 'srt' | 'webvtt' | 'mov_text';
+  source: '.srt' | '.vtt';
+}
+
+const CONTAINER_SUBTITLES: Record<string, ContainerSubtitles> = {
+  '.mkv': { codec: 'srt', source: '.srt' },
+  '.mka': { codec: 'srt', source: '.srt' },
+  '.webm': { codec: 'webvtt', source: '.vtt' },
+  '.mp4': { codec: 'mov_text', source: '.srt' },
+  '.m4v': { codec: 'mov_text', source: '.srt' },
+  '.m4a': { codec: 'mov_text', source: '.srt' },
+  '.mov': { codec: 'mov_text', source: '.srt' },
+};
+
+// Subtitle codecs ffmpeg can convert to SRT or WebVTT; the others, like
+// Blu-ray and DVD subtitles, are images
+const TEXT_SUBTITLE_CODECS = ['subrip', 'srt', 'ass', 'ssa', 'webvtt', 'mov_text', 'text', 'ttml', 'sami', 'microdvd', 'subviewer', 'mpl2'];
+
+// Marks the tracks WhisperNode added, so embedding again replaces them instead of adding more
+const TRACK_TITLE_SUFFIX = ' (WhisperNode)';
+
+/**
+ * Whether a file is a video written by embedSubtitles, a finished copy or one
+ * being written. Scans skip them so they are not transcribed again.
+ */
+export function isGeneratedVideo(filePath: string): boolean {
+  return /\.subtitled\.[^.]+$|^\..+\.embedding\.[^.]+$/.test(path.basename(filePath));
+}
+
+/**
+ * Whether subtitles can be embedded in a file: MKV, WebM, MP4 and MOV can hold text subtitles
+ */
+export function canEmbedSubtitles(videoPath: string): boolean {
+  return path.extname(videoPath).toLowerCase() in CONTAINER_SUBTITLES;
+}
+
+/**
+ * Find the subtitle files generated for a video: "name.srt" in the video's
+ * language and "name.<lang>.srt" for other languages. WebVTT files are used
+ * when there is no SRT, or when the container takes WebVTT (WebM).
+ * @param videoPath The video the subtitles belong to
+ * @param outputDir The directory the subtitles were written to
+ * @param baseFileName The video filename without extension
+ * @param language Language of the "name.srt" subtitles, null if unknown
+ */
+export async function findSubtitleTracks(
+  videoPath: string,
+  outputDir: string,
+  baseFileName: string,
+  language: string | null
+): Promise<SubtitleTrack[]> {
+  const container = CONTAINER_SUBTITLES[path.extname(videoPath).toLowerCase()];
+  if (!container) return [];
+
+  const extensions = container.source === '.srt' ? ['.srt', '.vtt'] : ['.vtt', '.srt'];
+  const tracks: SubtitleTrack[] = [];
+
+  for (const trackLanguage of [null, ...LANGUAGE_CODES.filter(code => code !== 'auto')]) {
+    const suffix = trackLanguage ? `.${trackLanguage}` : '';
+    for (const extension of extensions) {
+      const subtitlePath = path.join(outputDir, `${baseFileName}${suffix}${extension}`);
+      if (await fs.pathExists(subtitlePath)) {
+        tracks.push({ path: subtitlePath, language: trackLanguage || language });
+        break;
+      }
+    }
+  }
+
+  return tracks;
+}
+
+/**
+ * Add subtitle files to a video as soft subtitle tracks with ffmpeg. Audio,
+ * video and other streams are copied; tracks added by an earlier run are
+ * replaced. The output is written to a temporary file first and renamed, so
+ * it is never left half-written, even when it replaces the video itself.
+ * @param videoPath The video (MKV, WebM, MP4 or MOV)
+ * @param tracks The subtitle files to add
+ * @param outputPath Where to write the result, may be videoPath
+ */
+export async function embedSubtitles(videoPath: string, tracks: SubtitleTrack[], outputPath: string): Promise<void> {
+  const extension = path.extname(videoPath).toLowerCase();
+  const container = CONTAINER_SUBTITLES[extension];
+  if (!container) {
+    throw new Error(`Cannot embed subtitles in ${extension} files, use MKV, WebM, MP4 or MOV`);
+  }
+
+  const { streams } = await probeMedia(videoPath);
+  const subtitleStreams = streams.filter(stream => stream.codecType === 'subtitle');
+  const previousTracks = subtitleStreams.filter(stream => stream.title && stream.title.endsWith(TRACK_TITLE_SUFFIX));
+  const keptSubtitles = subtitleStreams.length - previousTracks.length;
+
+  const args = ['-nostats', '-loglevel', 'error', '-y', '-i', videoPath];
+  for (const track of tracks) {
+    args.push('-i', track.path);
+  }
+
+  args.push('-map', '0');
+  for (const stream of previousTracks) {
+    args.push('-map', `-0:${stream.index}`);
+  }
+  tracks.forEach((_, index) => args.push('-map', `${index + 1}:0`));
+  args.push('-c', 'copy');
+
+  tracks.forEach((track, index) => {
+    const streamIndex = keptSubtitles + index;
+    const language = track.language && ISO_639_2_CODES[track.language] || 'und';
+    const name = track.language && LANGUAGE_NAMES[track.language] || 'Unknown';
+    args.push(
+      `-c:s:${streamIndex}`, container.codec,
+      `-metadata:s:s:${streamIndex}`, `language=${language}`,
+      `-metadata:s:s:${streamIndex}`, `title=${name}${TRACK_TITLE_SUFFIX}`,
+    );
+  });
+
+  // Same folder as the result, so the rename is atomic
+  const outputExtension = path.extname(outputPath);
+  const tempPath = path.join(path.dirname(outputPath), `.${path.basename(outputPath, outputExtension)}.embedding${outputExtension}`);
+  args.push(tempPath);
+
+  await fs.ensureDir(path.dirname(outputPath));
+  try {
+    await execFileAsync('ffmpeg', args);
+    await fs.rename(tempPath, outputPath);
+  } catch (error) {
+    await fs.remove(tempPath);
+    throw error;
+  }
+}
+
+/**
+ * The file a video with embedded subtitles is written to
+ * @param videoPath The original video
+ * @param outputDir The directory the outputs of the video belong in
+ * @param mode 'new-file' for a copy next to the subtitles, 'replace' for the video itself
+ */
+export function getEmbeddedVideoPath(videoPath: string, outputDir: string, mode: Exclude<EmbedMode, 'off'>): string {
+  if (mode === 'replace') {
+    return videoPath;
+  }
+  const extension = path.extname(videoPath);
+  return path.join(outputDir, `${path.basename(videoPath, extension)}.subtitled${extension}`);
+}
+
+/**
+ * Find a subtitle track of a video in the given language. Forced tracks only
+ * cover foreign dialogue and signs, so they are not counted; text tracks are
+ * preferred over image tracks.
+ * @param media The probed video
+ * @param language Whisper language code
+ * @returns The track, or null if there is none
+ */
+export function findExistingSubtitleTrack(media: MediaInfo, language: string): MediaStream | null {
+  const tracks = media.streams.filter(stream =>
+    stream.codecType === 'subtitle' && !stream.forced && toLanguageCode(stream.language) === language
+  );
+  return tracks.find(isTextSubtitleTrack) || tracks[0] || null;
+}
+
+/**
+ * Whether a subtitle track holds text, so it can be extracted as SRT or WebVTT
+ */
+export function isTextSubtitleTrack(stream: MediaStream): boolean {
+  return stream.codecName !== null && TEXT_SUBTITLE_CODECS.includes(stream.codecName);
+}
+
+/**
+ * Write a subtitle track of a video to an SRT or WebVTT file with ffmpeg
+ * @param videoPath The video
+ * @param stream A text subtitle track of the video
+ * @param outputPath The file to write, .srt or .vtt
+ */
+export async function extractSubtitleTrack(videoPath: string, stream: MediaStream, outputPath: string): Promise<void> {
+  const codec = path.extname(outputPath).toLowerCase() === '.vtt' ? 'webvtt' : 'srt';
+  await fs.ensureDir(path.dirname(outputPath));
+  await execFileAsync('ffmpeg', [
+    '-nostats', '-loglevel', 'error', '-y',
+    '-i', videoPath,
+    '-map', `0:${stream.index}`,
+    '-c:s', codec,
+    outputPath,
+  ]);
+}
@@ -0,0 +1,109 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Cue } from './subtitles';
+import { parseAss, parseJson, parseSbv, parseTtml, writeAss, writeEbuStl, writeJson, writeSbv, writeTtml } from './formats';
+
+function cue(start: number, end: number, text: string): Cue {
+  return { id: null, start, end, text, settings: '', notes: [] };
+}
+
+// The events of ASS/SSA content
+function dialogues(content: string): string[] {
+  return content.split('\n').filter(line => line.startsWith('Dialogue: '));
+}
+
+// The text bytes of the n-th subtitle of an EBU-STL file, up to the unused bytes
+function stlText(stl: Buffer, index: number): number[] {
+  const block = stl.subarray(1024 + index * 128, 1024 + (index + 1) * 128);
+  return Array.from(block.subarray(16, block.indexOf(0x8F, 16)));
+}
+
+test('converts styling tags to ASS override tags and back', () => {
+  const cues = [cue(1230, 4560, '<i>Hello</i> {world}\n<font color="red">second</font> line')];
+  const ass = writeAss(cues, 'ass');
+  assert.deepEqual(dialogues(ass), [
+    'Dialogue: 0,0:00:01.23,0:00:04.56,Default,,0,0,0,,{\\i1}Hello{\\i0} \\{world\\}\\Nsecond line',
+  ]);
+  assert.deepEqual(parseAss(ass), [cue(1230, 4560, 'Hello {world}\nsecond line')]);
+});
+
+test('writes SSA styles with SSA alignments and reads SSA events back', () => {
+  const alignment = (assAlignment: number) => {
+    const style = writeAss([], 'ssa', `Alignment=${assAlignment}`).split('\n').find(line => line.startsWith('Style: '))!;
+    return style.split(',')[12];
+  };
+  // ASS numpad positions against SSA's bottom 1-3, top +4 and middle +8
+  assert.deepEqual([1, 2, 3, 4, 5, 6, 7, 8, 9].map(alignment), ['1', '2', '3', '9', '10', '11', '5', '6', '7']);
+
+  const ssa = writeAss([cue(0, 1500, 'One, two\nthree')], 'ssa');
+  assert.deepEqual(dialogues(ssa), ['Dialogue: Marked=0,0:00:00.00,0:00:01.50,Default,,0,0,0,,One, two\\Nthree']);
+  assert.deepEqual(parseAss(ssa), [cue(0, 1500, 'One, two\nthree')]);
+});
+
+test('nests TTML spans even when the tags overlap, and reads the text back', () => {
+  const cues = [
+    cue(1000, 2500, '<b>bold <i>both</b> italic</i>\nnext & <u>line</u>'),
+    { ...cue(3000, 4000, 'مرحبا'), language: 'ar' },
+  ];
+  const ttml = writeTtml(cues, 'ttml', 'en');
+  assert.match(ttml, /<tt xmlns="http:\/\/www\.w3\.org\/ns\/ttml" [^>]*xml:lang="en">/);
+  assert.deepEqual(ttml.split('\n').filter(line => line.trim().startsWith('<p ')).map(line => line.trim()), [
+    '<p begin="00:00:01.000" end="00:00:02.500">'
+      + '<span tts:fontWeight="bold">bold <span tts:fontStyle="italic">both</span></span>'
+      + '<span tts:fontStyle="italic"> italic</span><br/>next &amp; <span tts:textDecoration="underline">line</span></p>',
+    '<p begin="00:00:03.000" end="00:00:04.000" xml:lang="ar">مرحبا</p>',
+  ]);
+  assert.deepEqual(parseTtml(ttml), [
+    cue(1000, 2500, 'bold both italic\nnext & line'),
+    { ...cue(3000, 4000, 'مرحبا'), language: 'ar' },
+  ]);
+  assert.match(writeTtml(cues, 'dfxp'), /xmlns="http:\/\/www\.w3\.org\/2006\/10\/ttaf1"/);
+});
+
+test('reads TTML frames, ticks, offsets and durations', () => {
+  const ttml = [
+    '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:frameRate="25" ttp:tickRate="10">',
+    '<body><div>',
+    '<p xml:id="c1" begin="00:00:01:12" dur="2s">One</p>',
+    '<p begin="100t" end="15s">Two &#x263A;</p>',
+    '<p begin="1m">No end</p>',
+    '</div></body></tt>',
+  ].join('\n');
+  assert.deepEqual(parseTtml(ttml), [
+    { ...cue(1480, 3480, 'One'), id: 'c1' },
+    cue(10_000, 15_000, 'Two ☺'),
+  ]);
+});
+
+test('round-trips SBV and JSON', () => {
+  const cues = [cue(1000, 2500, 'Hello\nthere'), { ...cue(3_600_000, 3_601_000, 'مرحبا'), language: 'ar' }];
+
+  const sbv = writeSbv(cues);
+  assert.equal(sbv, '0:00:01.000,0:00:02.500\nHello\nthere\n\n1:00:00.000,1:00:01.000\nمرحبا\n');
+  assert.deepEqual(parseSbv(sbv), cues.map(({ language, ...rest }) => rest));
+
+  assert.deepEqual(parseJson(writeJson(cues, 'en')), cues);
+  assert.deepEqual(parseJson(JSON.stringify([{ start: 0, end: 900, text: ' Hi ' }])), [cue(0, 900, 'Hi')]);
+});
+
+test('writes EBU-STL text in ISO 6937 for Latin scripts', () => {
+  const stl = writeEbuStl([cue(1000, 2040, 'Café ♪')], 'fr', 'Title');
+  assert.equal(stl.length, 1024 + 128);
+  assert.equal(stl.toString('latin1', 0, 3), '850');
+  assert.equal(stl.toString('latin1', 12, 16), '000F'); // Latin character table, French
+  assert.deepEqual(Array.from(stl.subarray(1024 + 5, 1024 + 13)), [0, 0, 1, 0, 0, 0, 2, 1]);
+  // The acute accent comes before its letter
+  assert.deepEqual(stlText(stl, 0), [0x43, 0x61, 0x66, 0xC2, 0x65, 0x20, 0xD5]);
+});
+
+test('writes EBU-STL text in the ISO 8859 table of Cyrillic and Arabic scripts', () => {
+  const cyrillic = writeEbuStl([cue(0, 1000, 'Привет\nмир')], 'ru');
+  assert.equal(cyrillic.toString('latin1', 12, 16), '0156');
+  assert.deepEqual(stlText(cyrillic, 0), [0xBF, 0xE0, 0xD8, 0xD2, 0xD5, 0xE2, 0x8A, 0xDC, 0xD8, 0xE0]);
+  assert.equal(cyrillic[1024 + 13], 20); // Two lines start a row higher
+
+  // ISO 8859-6 writes Arabic-Indic digits as ASCII digits
+  const arabic = writeEbuStl([cue(0, 1000, 'عام ٢٠٢٤')], 'ar');
+  assert.equal(arabic.toString('latin1', 12, 16), '027E');
+  assert.deepEqual(stlText(arabic, 0), [0xD9, 0xC7, 0xE5, 0x20, 0x32, 0x30, 0x32, 0x34]);
+});
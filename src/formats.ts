@@ -0,0 +1,693 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Config, FORMAT_EXTENSIONS } from './config';
+import { Cue, formatTimestamp, parseTimestamp } from './subtitles';
+
+// Formats written from the post-processed cues rather than by whisper.cpp
+export const CONVERTED_FORMATS = ['ass', 'ssa', 'ttml', 'dfxp', 'sbv', 'stl'] as const;
+export type ConvertedFormat = typeof CONVERTED_FORMATS[number];
+
+// Style of ASS/SSA subtitles; colours are ASS "&HAABBGGRR" values
+export const DEFAULT_ASS_STYLE: Record<string, string> = {
+  PlayResX: '1920',
+  PlayResY: '1080',
+  Fontname: 'Arial',
+  Fontsize: '64',
+  PrimaryColour: '&H00FFFFFF',
+  SecondaryColour: '&H000000FF',
+  OutlineColour: '&H00000000',
+  BackColour: '&H80000000',
+  Bold: '0',
+  Italic: '0',
+  BorderStyle: '1',
+  Outline: '3',
+  Shadow: '1',
+  Alignment: '2',
+  MarginL: '60',
+  MarginR: '60',
+  MarginV: '50',
+  Encoding: '1',
+};
+
+// EBU Tech 3264 language codes of the languages Whisper knows
+const STL_LANGUAGE_CODES: Record<string, string> = {
+  sq: '01', br: '02', ca: '03', hr: '04', cy: '05', cs: '06', da: '07', de: '08', en: '09', es: '0A',
+  et: '0C', eu: '0D', fo: '0E', fr: '0F', ga: '11', gd: '12', gl: '13', is: '14', it: '15', la: '17',
+  lv: '18', lb: '19', lt: '1A', hu: '1B', mt: '1C', nl: '1D', no: '1E', nn: '1E', oc: '1F', pl: '20',
+  pt: '21', ro: '22', sr: '24', sk: '25', sl: '26', fi: '27', sv: '28', tr: '29',
+  am: '7F', ar: '7E', hy: '7D', as: '7C', az: '7B', be: '79', bn: '78', bg: '77', my: '76', zh: '75',
+  ka: '71', el: '70', gu: '6F', ha: '6D', he: '6C', hi: '6B', id: '6A', ja: '69', kn: '68', kk: '67',
+  km: '66', ko: '65', lo: '64', mk: '63', mg: '62', ms: '61', mr: '5F', ne: '5D', fa: '5A', pa: '59',
+  ps: '58', ru: '56', sn: '53', si: '52', so: '51', sw: '4F', tg: '4E', ta: '4D', tt: '4C', te: '4B',
+  th: '4A', uk: '49', ur: '48', uz: '47', vi: '46',
+};
+
+// ISO 6937 bytes of the combining marks of decomposed (NFD) Latin letters
+const ISO_6937_DIACRITICS: Record<string, number> = {
+  '\u0300': 0xC1, // Grave
+  '\u0301': 0xC2, // Acute
+  '\u0302': 0xC3, // Circumflex
+  '\u0303': 0xC4, // Tilde
+  '\u0304': 0xC5, // Macron
+  '\u0306': 0xC6, // Breve
+  '\u0307': 0xC7, // Dot above
+  '\u0308': 0xC8, // Diaeresis
+  '\u030A': 0xCA, // Ring
+  '\u0327': 0xCB, // Cedilla
+  '\u030B': 0xCD, // Double acute
+  '\u0328': 0xCE, // Ogonek
+  '\u030C': 0xCF, // Caron
+};
+
+// ISO 6937 bytes of characters that do not decompose
+const ISO_6937_CHARACTERS: Record<string, number> = {
+  '¡': 0xA1, '¢': 0xA2, '£': 0xA3, '¥': 0xA5, '§': 0xA7, '«': 0xAB, '°': 0xB0, '±': 0xB1, '»': 0xBB,
+  '¿': 0xBF, '‘': 0xA9, '’': 0xB9, '“': 0xAA, '”': 0xBA, '–': 0xD0, '—': 0xD0, '♪': 0xD5,
+  'Æ': 0xE1, 'Đ': 0xE2, 'Ħ': 0xE4, 'Ĳ': 0xE6, 'Ŀ': 0xE7, 'Ł': 0xE8, 'Ø': 0xE9, 'Œ': 0xEA, 'Þ': 0xEC,
+  'æ': 0xF1, 'đ': 0xF2, 'ð': 0xF3, 'ħ': 0xF4, 'ı': 0xF5, 'ĳ': 0xF6, 'ŀ': 0xF7, 'ł': 0xF8, 'ø': 0xF9,
+  'œ': 0xFA, 'ß': 0xFB, 'þ': 0xFC,
+};
+
+// EBU-STL character code tables for non-Latin scripts: the ISO 8859 part
+// whose upper half holds the script, and how code points map onto it
+const STL_CHARACTER_TABLES = [
+  // Cyrillic, ISO 8859-5
+  { code: '01', script: /[\u0400-\u045F]/, offset: (codePoint: number) => codePoint === 0x2116 ? 0xF0 : codePoint - 0x0360 },
+  // Arabic, ISO 8859-6, which writes digits as ASCII
+  { code: '02', script: /[\u0600-\u06FF]/, offset: (codePoint: number) => codePoint >= 0x0660 && codePoint <= 0x0669 ? codePoint - 0x0630 : codePoint - 0x0560 },
+  // Greek, ISO 8859-7
+  { code: '03', script: /[\u0370-\u03FF]/, offset: (codePoint: number) => codePoint - 0x02D0 },
+  // Hebrew, ISO 8859-8
+  { code: '04', script: /[\u0590-\u05FF]/, offset: (codePoint: number) => codePoint - 0x04F0 },
+];
+
+const STL_FRAME_RATE = 25;
+const STL_TEXT_FIELD_SIZE = 112;
+
+/**
+ * Parse ASS style overrides like "Fontname=Verdana,Fontsize=48,Alignment=8"
+ * @throws Error naming the unknown fields
+ */
+export function parseAssStyle(style: string): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  const unknown: string[] = [];
+
+  for (const entry of style.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [name, value = ''] = entry.split('=').map(part => part.trim());
+    const field = Object.keys(DEFAULT_ASS_STYLE).find(key => key.toLowerCase() === name.toLowerCase());
+    if (field) {
+      overrides[field] = value;
+    } else {
+      unknown.push(name);
+    }
+  }
+
+  if (unknown.length > 0) {
+    throw new Error(`unknown style field(s) ${unknown.join(', ')}, expected: ${Object.keys(DEFAULT_ASS_STYLE).join(', ')}`);
+  }
+
+  return { ...DEFAULT_ASS_STYLE, ...overrides };
+}
+
+/**
+ * Format milliseconds as "0:01:02.34", the timestamp of ASS/SSA events
+ */
+function formatAssTimestamp(ms: number): string {
+  const centiseconds = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor(centiseconds / 6000) % 60;
+  const seconds = Math.floor(centiseconds / 100) % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(centiseconds % 100)}`;
+}
+
+/**
+ * Convert an ASS "&HAABBGGRR" colour to the decimal BGR value SSA uses
+ */
+function toSsaColour(colour: string): string {
+  const hex = colour.replace(/^&H/i, '').replace(/&$/, '');
+  return String(parseInt(hex.slice(-6), 16) || 0);
+}
+
+// SRT and WebVTT tags in cue text, like "<i>", "</b>", "<font color=...>", "<c.yellow>" or "<00:00:01.000>"
+const STYLE_TAG = /<(\/?)([a-z][\w.-]*|\d[\d:.]*)(?:\s[^<>]*)?>/gi;
+
+// The tags other formats can style; the rest are dropped
+type TextStyle = 'i' | 'b' | 'u';
+
+type StyledText = { text: string } | { style: TextStyle; open: boolean };
+
+/**
+ * Split cue text into text and the italic, bold and underline tags around it,
+ * dropping other tags
+ */
+function splitStyleTags(text: string): StyledText[] {
+  const parts: StyledText[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(STYLE_TAG))) {
+    if (match.index! > last) parts.push({ text: text.slice(last, match.index) });
+    const name = match[2].toLowerCase();
+    if (name === 'i' || name === 'b' || name === 'u') {
+      parts.push({ style: name, open: match[1] === '' });
+    }
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+
+  return parts;
+}
+
+/**
+ * Convert cue text to an ASS/SSA event text, with override tags like "{\i1}" for the styling tags
+ */
+function toAssText(text: string): string {
+  return splitStyleTags(text)
+    // Braces start override tags, line breaks are written as \N
+    .map(part => ('text' in part ? part.text.replace(/[{}]/g, match => `\\${match}`) : `{\\${part.style}${part.open ? 1 : 0}}`))
+    .join('')
+    .replace(/\n/g, '\\N');
+}
+
+/**
+ * Write cues as Advanced SubStation Alpha (ASS, version 4+) or SubStation Alpha (SSA, version 4)
+ * @param cues The cues in order
+ * @param format 'ass' or 'ssa'
+ * @param assStyle Style overrides, see parseAssStyle
+ */
+export function writeAss(cues: Cue[], format: 'ass' | 'ssa', assStyle: string = ''): string {
+  const style = parseAssStyle(assStyle);
+  const lines = [
+    '[Script Info]',
+    '; Generated by WhisperNode',
+    `ScriptType: ${format === 'ass' ? 'v4.00+' : 'v4.00'}`,
+    `PlayResX: ${style.PlayResX}`,
+    `PlayResY: ${style.PlayResY}`,
+    'WrapStyle: 0',
+    '',
+  ];
+
+  // SSA uses -1 for true and decimal BGR colours without alpha
+  const flag = (value: string) => (value === '0' ? '0' : '-1');
+  if (format === 'ass') {
+    lines.push(
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      `Style: Default,${style.Fontname},${style.Fontsize},${style.PrimaryColour},${style.SecondaryColour},${style.OutlineColour},${style.BackColour},${flag(style.Bold)},${flag(style.Italic)},0,0,100,100,0,0,${style.BorderStyle},${style.Outline},${style.Shadow},${style.Alignment},${style.MarginL},${style.MarginR},${style.MarginV},${style.Encoding}`,
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    );
+  } else {
+    lines.push(
+      '[V4 Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+      `Style: Default,${style.Fontname},${style.Fontsize},${toSsaColour(style.PrimaryColour)},${toSsaColour(style.SecondaryColour)},${toSsaColour(style.OutlineColour)},${toSsaColour(style.BackColour)},${flag(style.Bold)},${flag(style.Italic)},${style.BorderStyle},${style.Outline},${style.Shadow},${toSsaAlignment(style.Alignment)},${style.MarginL},${style.MarginR},${style.MarginV},0,${style.Encoding}`,
+      '',
+      '[Events]',
+      'Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    );
+  }
+
+  for (const cue of cues) {
+    const text = toAssText(cue.text);
+    const layer = format === 'ass' ? '0' : 'Marked=0';
+    lines.push(`Dialogue: ${layer},${formatAssTimestamp(cue.start)},${formatAssTimestamp(cue.end)},Default,,0,0,0,,${text}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Convert an ASS numpad alignment (1-9) to SSA's (1-3 bottom, +4 top, +8 middle)
+ */
+function toSsaAlignment(alignment: string): string {
+  const value = parseInt(alignment, 10);
+  if (!(value >= 1 && value <= 9)) return '2';
+  const column = (value - 1) % 3 + 1;
+  const row = Math.floor((value - 1) / 3); // 0 bottom, 1 middle, 2 top
+  return String(column + [0, 8, 4][row]);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const TTML_STYLES: Record<TextStyle, string> = {
+  i: 'tts:fontStyle="italic"',
+  b: 'tts:fontWeight="bold"',
+  u: 'tts:textDecoration="underline"',
+};
+
+/**
+ * Convert cue text to TTML, with spans for the styling tags. Spans are always
+ * closed and nested, even when the tags were not.
+ */
+function toTtmlText(text: string): string {
+  const open: TextStyle[] = [];
+  let result = '';
+
+  for (const part of splitStyleTags(text)) {
+    if ('text' in part) {
+      result += part.text.split('\n').map(escapeXml).join('<br/>');
+    } else if (part.open) {
+      open.push(part.style);
+      result += `<span ${TTML_STYLES[part.style]}>`;
+    } else if (open.includes(part.style)) {
+      // Close the spans opened since, and open the others again
+      const closed = open.splice(open.lastIndexOf(part.style));
+      result += '</span>'.repeat(closed.length) + closed.slice(1).map(style => `<span ${TTML_STYLES[style]}>`).join('');
+      open.push(...closed.slice(1));
+    }
+  }
+
+  return result + '</span>'.repeat(open.length);
+}
+
+/**
+ * Write cues as TTML, or as DFXP (the draft TTML namespace older players expect)
+ * @param cues The cues in order
+ * @param format 'ttml' or 'dfxp'
+ * @param language Language of the cues, null if unknown
+ */
+export function writeTtml(cues: Cue[], format: 'ttml' | 'dfxp', language: string | null = null): string {
+  const namespace = format === 'ttml' ? 'http://www.w3.org/ns/ttml' : 'http://www.w3.org/2006/10/ttaf1';
+  const lang = language && language !== 'auto' ? language : '';
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="${namespace}" xmlns:tts="${namespace}#styling" xml:lang="${lang}">`,
+    '  <head>',
+    '    <styling>',
+    '      <style xml:id="default" tts:textAlign="center" tts:fontFamily="proportionalSansSerif"/>',
+    '    </styling>',
+    '    <layout>',
+    '      <region xml:id="bottom" tts:origin="10% 80%" tts:extent="80% 15%" tts:displayAlign="after"/>',
+    '    </layout>',
+    '  </head>',
+    '  <body style="default" region="bottom">',
+    '    <div>',
+  ];
+
+  for (const cue of cues) {
+    const text = toTtmlText(cue.text);
+    const begin = formatTimestamp(cue.start, 'vtt');
+    const end = formatTimestamp(cue.end, 'vtt');
+    const cueLang = cue.language && cue.language !== lang ? ` xml:lang="${cue.language}"` : '';
+    lines.push(`      <p begin="${begin}" end="${end}"${cueLang}>${text}</p>`);
+  }
+
+  lines.push('    </div>', '  </body>', '</tt>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write cues as YouTube SBV
+ */
+export function writeSbv(cues: Cue[]): string {
+  return cues
+    .map(cue => {
+      // SBV timestamps have no leading zero on the hours: 0:01:02.345
+      const timing = [cue.start, cue.end].map(ms => formatTimestamp(ms, 'vtt').replace(/^0(?=\d)/, '')).join(',');
+      return `${timing}\n${cue.text}`;
+    })
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Encode text for an EBU-STL text field. Latin text uses ISO 6937; texts in
+ * Cyrillic, Arabic, Greek or Hebrew use the matching ISO 8859 table.
+ * Characters the table does not have are written as "?".
+ */
+function encodeStlText(text: string, table: typeof STL_CHARACTER_TABLES[number] | undefined): number[] {
+  const bytes: number[] = [];
+
+  for (const character of Array.from(text.normalize(table ? 'NFC' : 'NFD'))) {
+    const codePoint = character.codePointAt(0)!;
+
+    if (character === '\n') {
+      bytes.push(0x8A); // CR/LF
+    } else if (codePoint >= 0x20 && codePoint < 0x7F) {
+      bytes.push(codePoint);
+    } else if (table) {
+      const byte = table.script.test(character) || codePoint === 0x2116 ? table.offset(codePoint) : -1;
+      bytes.push((byte >= 0xA0 && byte <= 0xFF) || (byte >= 0x30 && byte <= 0x39) ? byte : 0x3F);
+    } else if (ISO_6937_DIACRITICS[character] !== undefined && bytes.length > 0) {
+      // The diacritic comes before the letter it belongs to
+      const letter = bytes.pop()!;
+      bytes.push(ISO_6937_DIACRITICS[character], letter);
+    } else {
+      bytes.push(ISO_6937_CHARACTERS[character] || 0x3F);
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * A fixed-width ASCII field of the GSI block, padded with spaces
+ */
+function gsiField(value: string | number, length: number): string {
+  return String(value).replace(/[^\x20-\x7E]/g, '?').slice(0, length).padEnd(length, ' ');
+}
+
+/**
+ * Write cues as an EBU-STL (Tech 3264) file at 25 frames per second
+ * @param cues The cues in order
+ * @param language Language of the cues, null if unknown
+ * @param title Programme title stored in the file
+ */
+export function writeEbuStl(cues: Cue[], language: string | null = null, title: string = ''): Buffer {
+  const allText = cues.map(cue => cue.text).join('');
+  const table = STL_CHARACTER_TABLES.find(candidate => candidate.script.test(allText));
+  const maxRowLength = Math.max(0, ...cues.flatMap(cue => cue.text.split('\n').map(line => line.length)));
+  const date = new Date().toISOString().slice(2, 10).replace(/-/g, '');
+
+  const toTimecode = (ms: number) => {
+    const total = Math.max(0, Math.round(ms));
+    return [
+      Math.floor(total / 3600000),
+      Math.floor(total / 60000) % 60,
+      Math.floor(total / 1000) % 60,
+      Math.min(STL_FRAME_RATE - 1, Math.round((total % 1000) * STL_FRAME_RATE / 1000)),
+    ];
+  };
+  const firstCue = cues.length > 0 ? toTimecode(cues[0].start).map(value => String(value).padStart(2, '0')).join('') : '00000000';
+
+  // General Subtitle Information block
+  const gsi = [
+    gsiField('850', 3),                 // Code page
+    gsiField('STL25.01', 8),            // Disk format: 25 fps
+    gsiField('0', 1),                   // Display standard: open subtitling
+    gsiField(table ? table.code : '00', 2),
+    gsiField(language && STL_LANGUAGE_CODES[language] || '00', 2),
+    gsiField(title, 32),                // Original programme title
+    gsiField('', 32),                   // Original episode title
+    gsiField(title, 32),                // Translated programme title
+    gsiField('', 32),                   // Translated episode title
+    gsiField('', 32),                   // Translator
+    gsiField('', 32),                   // Translator's contact details
+    gsiField('', 16),                   // Subtitle list reference code
+    gsiField(date, 6),                  // Creation date
+    gsiField(date, 6),                  // Revision date
+    gsiField('00', 2),                  // Revision number
+    gsiField(String(cues.length).padStart(5, '0'), 5), // Text blocks
+    gsiField(String(cues.length).padStart(5, '0'), 5), // Subtitles
+    gsiField('001', 3),                 // Subtitle groups
+    gsiField(String(Math.min(99, Math.max(40, maxRowLength))), 2), // Characters per row
+    gsiField('23', 2),                  // Rows
+    gsiField('1', 1),                   // Time codes are intended for use
+    gsiField('00000000', 8),            // Start of programme
+    gsiField(firstCue, 8),              // First in-cue
+    gsiField('1', 1),                   // Total disks
+    gsiField('1', 1),                   // Disk number
+    gsiField('', 3),                    // Country of origin
+    gsiField('WhisperNode', 32),        // Publisher
+    gsiField('', 32),                   // Editor
+    gsiField('', 32),                   // Editor's contact details
+    gsiField('', 75),                   // Spare
+    gsiField('', 576),                  // User-defined area
+  ].join('');
+
+  const blocks = [Buffer.from(gsi, 'latin1')];
+
+  cues.forEach((cue, index) => {
+    const lines = cue.text.split('\n');
+    const text = encodeStlText(cue.text, table).slice(0, STL_TEXT_FIELD_SIZE);
+    const block = Buffer.alloc(128, 0x8F); // Unused text bytes are 0x8F
+
+    block[0] = 0;                          // Subtitle group
+    block.writeUInt16LE(index % 65536, 1); // Subtitle number
+    block[3] = 0xFF;                       // Last extension block
+    block[4] = 0;                          // Not part of a cumulative set
+    Buffer.from(toTimecode(cue.start)).copy(block, 5);
+    Buffer.from(toTimecode(cue.end)).copy(block, 9);
+    block[13] = 22 - 2 * (lines.length - 1); // Vertical position: teletext row, two rows per line
+    block[14] = 2;                         // Centred
+    block[15] = 0;                         // Subtitle, not a comment
+    Buffer.from(text).copy(block, 16);
+
+    blocks.push(block);
+  });
+
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Write cues in one of the converted formats
+ * @param cues The cues in order
+ * @param format The format to write
+ * @param options Style, language and title of the output
+ */
+export function renderSubtitles(
+  cues: Cue[],
+  format: ConvertedFormat,
+  options: { assStyle?: string; language?: string | null; title?: string } = {}
+): string | Buffer {
+  switch (format) {
+    case 'ass':
+    case 'ssa':
+      return writeAss(cues, format, options.assStyle);
+    case 'ttml':
+    case 'dfxp':
+      return writeTtml(cues, format, options.language);
+    case 'sbv':
+      return writeSbv(cues);
+    case 'stl':
+      return writeEbuStl(cues, options.language, options.title);
+  }
+}
+
+/**
+ * Write the enabled converted formats of a video next to its SRT file
+ * @param cues The post-processed cues of the video
+ * @param outputDir The directory the output files belong in
+ * @param baseFileName The video filename without extension
+ * @param videoConfig Configuration of the video
+ * @param language Language of the cues, null if unknown
+ * @returns Paths of the files written
+ */
+export async function writeConvertedFormats(
+  cues: Cue[],
+  outputDir: string,
+  baseFileName: string,
+  videoConfig: Config,
+  language: string | null
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const format of CONVERTED_FORMATS) {
+    if (!videoConfig.formats[format]) continue;
+
+    const outputFile = path.join(outputDir, `${baseFileName}${FORMAT_EXTENSIONS[format]}`);
+    const content = renderSubtitles(cues, format, { assStyle: videoConfig.assStyle, language, title: baseFileName });
+    await fs.writeFile(outputFile, content);
+    console.log(`📝 Wrote ${format.toUpperCase()} subtitles: ${path.basename(outputFile)}`);
+    written.push(outputFile);
+  }
+
+  return written;
+}
+
+/**
+ * Parse an ASS/SSA time like "0:01:02.34" into milliseconds
+ */
+function parseAssTimestamp(timestamp: string): number {
+  const [hours, minutes, seconds] = timestamp.trim().split(':');
+  return Math.round(((parseInt(hours, 10) * 60 + parseInt(minutes, 10)) * 60 + parseFloat(seconds)) * 1000);
+}
+
+/**
+ * Read the Dialogue events of ASS or SSA content
+ * Override tags like "{\i1}" are removed, drawings and comments are skipped.
+ */
+export function parseAss(content: string): Cue[] {
+  const cues: Cue[] = [];
+  let inEvents = false;
+  let fields: string[] = [];
+
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const section = line.match(/^\s*\[(.+)\]\s*$/);
+    if (section) {
+      inEvents = section[1].toLowerCase() === 'events';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    const [type, rest] = [line.slice(0, line.indexOf(':')).trim(), line.slice(line.indexOf(':') + 1)];
+    if (type === 'Format') {
+      fields = rest.split(',').map(field => field.trim().toLowerCase());
+    } else if (type === 'Dialogue' && fields.length > 0) {
+      // The text is the last field and may contain commas
+      const values = rest.split(',');
+      const text = values.slice(fields.length - 1).join(',');
+      const value = (name: string) => (values[fields.indexOf(name)] || '').trim();
+      if (/\{[^}]*\\p[1-9]/.test(text)) continue; // Vector drawing, not text
+
+      cues.push({
+        id: null,
+        start: parseAssTimestamp(value('start')),
+        end: parseAssTimestamp(value('end')),
+        text: text
+          .replace(/\\([{}])/g, (_, brace) => `\u0000${brace === '{' ? 1 : 2}`)
+          .replace(/\{[^}]*\}/g, '')
+          .replace(/\u0000([12])/g, (_, brace) => (brace === '1' ? '{' : '}'))
+          .replace(/\\[Nn]/g, '\n')
+          .replace(/\\h/g, ' ')
+          .trim(),
+        settings: '',
+        notes: [],
+      });
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * Parse a TTML time expression: "00:01:02.345", "00:01:02:12" (frames),
+ * or an offset like "62.345s", "500ms", "2m", "1h", "30f" or "1000t"
+ */
+function parseTtmlTime(value: string, frameRate: number, tickRate: number): number {
+  const clock = value.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/);
+  if (clock) {
+    const seconds = (parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10)) * 60 + parseFloat(clock[3]);
+    return Math.round((seconds + (clock[4] ? parseFloat(clock[4]) / frameRate : 0)) * 1000);
+  }
+
+  const offset = value.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (!offset) {
+    throw new Error(`Invalid TTML time "${value}"`);
+  }
+  const amount = parseFloat(offset[1]);
+  const unitMs: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1, f: 1000 / frameRate, t: 1000 / tickRate };
+  return Math.round(amount * unitMs[offset[2]]);
+}
+
+function decodeXml(text: string): string {
+  const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+    }
+    return entities[name] !== undefined ? entities[name] : entity;
+  });
+}
+
+/**
+ * Read the paragraphs of TTML or DFXP content
+ * Timing is taken from each <p> (begin with end or dur); styling is dropped.
+ */
+export function parseTtml(content: string): Cue[] {
+  const attribute = (attributes: string, name: string) => {
+    const match = attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(["'])(.*?)\\1`));
+    return match ? match[2] : null;
+  };
+
+  const root = content.match(/<tt\b([^>]*)>/);
+  const frameRate = Number(root && attribute(root[1], 'ttp:frameRate')) || 30;
+  const tickRate = Number(root && attribute(root[1], 'ttp:tickRate')) || 1;
+  const cues: Cue[] = [];
+
+  for (const [, attributes, body] of Array.from(content.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/g))) {
+    const begin = attribute(attributes, 'begin');
+    const end = attribute(attributes, 'end');
+    const duration = attribute(attributes, 'dur');
+    if (begin === null || (end === null && duration === null)) continue;
+
+    const start = parseTtmlTime(begin, frameRate, tickRate);
+    const text = body
+      .replace(/\s+/g, ' ')                  // Line breaks in the XML are not part of the text
+      .replace(/\s*<br\s*\/?>\s*/g, '\n')
+      .replace(/<[^>]+>/g, '')
+      .split('\n')
+      .map(line => decodeXml(line).trim())
+      .join('\n');
+
+    const cue: Cue = {
+      id: attribute(attributes, 'xml:id'),
+      start,
+      end: end !== null ? parseTtmlTime(end, frameRate, tickRate) : start + parseTtmlTime(duration!, frameRate, tickRate),
+      text,
+      settings: '',
+      notes: [],
+    };
+    const language = attribute(attributes, 'xml:lang');
+    if (language) {
+      cue.language = language;
+    }
+    cues.push(cue);
+  }
+
+  return cues;
+}
+
+/**
+ * Read YouTube SBV content
+ */
+export function parseSbv(content: string): Cue[] {
+  const cues: Cue[] = [];
+
+  for (const block of content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const [timing, ...lines] = block.trim().split('\n');
+    const match = timing && timing.match(/^(\d+:\d{2}:\d{2}\.\d{1,3}),(\d+:\d{2}:\d{2}\.\d{1,3})$/);
+    if (!match) continue;
+
+    cues.push({ id: null, start: parseTimestamp(match[1]), end: parseTimestamp(match[2]), text: lines.join('\n'), settings: '', notes: [] });
+  }
+
+  return cues;
+}
+
+/**
+ * Write cues in the JSON layout of whisper.cpp ("transcription" entries with
+ * "timestamps" and "offsets")
+ * @param cues The cues in order
+ * @param language Language of the cues, null if unknown
+ */
+export function writeJson(cues: Cue[], language: string | null = null): string {
+  const transcription = cues.map(cue => ({
+    timestamps: { from: formatTimestamp(cue.start, 'srt'), to: formatTimestamp(cue.end, 'srt') },
+    offsets: { from: cue.start, to: cue.end },
+    text: cue.text,
+    ...(cue.language ? { language: cue.language } : {}),
+  }));
+  const result = language && language !== 'auto' ? { result: { language } } : {};
+  return JSON.stringify({ ...result, transcription }, null, 2) + '\n';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read whisper.cpp JSON output, or a list of { start, end, text } segments in
+ * milliseconds like TranscriptionResult.segments
+ */
+export function parseJson(content: string): Cue[] {
+  const data: unknown = JSON.parse(content);
+  const entries: unknown = Array.isArray(data) ? data : isObject(data) ? (Array.isArray(data.segments) ? data.segments : data.transcription) : null;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected whisper.cpp JSON with a "transcription" list or a list of segments');
+  }
+
+  return entries.map((entry: unknown, index: number) => {
+    if (!isObject(entry)) {
+      throw new Error(`Segment ${index + 1} is not an object`);
+    }
+    const times = isObject(entry.offsets) ? { start: entry.offsets.from, end: entry.offsets.to } : { start: entry.start, end: entry.end };
+    if (typeof times.start !== 'number' || typeof times.end !== 'number') {
+      throw new Error(`Segment ${index + 1} has no start and end in milliseconds`);
+    }
+
+    return {
+      id: null,
+      start: times.start,
+      end: times.end,
+      text: typeof entry.text === 'string' ? entry.text.trim() : '',
+      settings: '',
+      notes: [],
+      ...(typeof entry.language === 'string' ? { language: entry.language } : {}),
+    };
+  });
+}
@@ -0,0 +1,42 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Cue } from './subtitles';
+import { HallucinationFilterOptions, filterHallucinations } from './hallucinations';
+
+const options: HallucinationFilterOptions = {
+  maxDuplicates: 1,
+  repeatSimilarity: 85,
+  maxPhraseRepeats: 3,
+  hallucinationPhrases: [],
+  maxSpeechCharsPerSecond: 50,
+  maxMsPerChar: 2000,
+};
+
+function cue(start: number, end: number, text: string): Cue {
+  return { id: null, start, end, text, settings: '', notes: [] };
+}
+
+test('keeps cues without a duration', () => {
+  const cues = [cue(1000, 1000, 'We started the engine and drove off')];
+  const { cues: kept, filtered } = filterHallucinations(cues, options, 'en');
+  assert.deepEqual(kept, cues);
+  assert.deepEqual(filtered, []);
+});
+
+test('keeps a short reply held for several seconds', () => {
+  const cues = [cue(0, 7000, 'Yes.')];
+  const { cues: kept, filtered } = filterHallucinations(cues, options, 'en');
+  assert.deepEqual(kept, cues);
+  assert.deepEqual(filtered, []);
+});
+
+test('removes longer text with implausible timing', () => {
+  const tooSlow = cue(0, 60_000, 'We started the engine');
+  const tooFast = cue(60_000, 60_100, 'We started the engine and drove off into the night');
+  const { cues: kept, filtered } = filterHallucinations([tooSlow, tooFast], options, 'en');
+  assert.deepEqual(kept, []);
+  assert.deepEqual(filtered.map(({ cue, reason }) => [cue, reason]), [
+    [tooSlow, 'implausible-timing'],
+    [tooFast, 'implausible-timing'],
+  ]);
+});
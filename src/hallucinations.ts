@@ -0,0 +1,296 @@
+import { Config } from './config';
+import { Cue, formatTimestamp } from './subtitles';
+import { segmentText, textWidth, joinUnits } from './segmentation';
+
+// Settings that control the hallucination filter
+export type HallucinationFilterOptions = Pick<
+  Config,
+  | 'maxDuplicates'
+  | 'repeatSimilarity'
+  | 'maxPhraseRepeats'
+  | 'hallucinationPhrases'
+  | 'maxSpeechCharsPerSecond'
+  | 'maxMsPerChar'
+>;
+
+export type RemovalReason = 'no-speech' | 'known-phrase' | 'repeat' | 'implausible-timing' | 'looping-phrase';
+
+// A cue the filter removed or shortened
+export interface FilteredCue {
+  cue: Cue;            // The cue as Whisper wrote it
+  reason: RemovalReason;
+  text: string | null; // Text kept after cutting a looping phrase, null if the cue was removed
+}
+
+export interface HallucinationFilterResult {
+  cues: Cue[];
+  filtered: FilteredCue[];
+}
+
+// Phrases Whisper writes over silence or music, learned from video credits and
+// subtitle sites. Matched against the whole cue, lower-cased and without punctuation.
+const KNOWN_PHRASES: Record<string, string[]> = {
+  en: [
+    'thanks for watching',
+    'thank you for watching',
+    'thank you so much for watching',
+    'please subscribe',
+    'like and subscribe',
+    'please like and subscribe',
+    'dont forget to like and subscribe',
+    'subtitles by the amaraorg community',
+    'transcription by castingwords',
+    'see you in the next video',
+  ],
+  ar: [
+    'اشتركوا في القناة',
+    'اشترك في القناة',
+    'شكرا للمشاهدة',
+    'شكرا على المشاهدة',
+    'ترجمة نانسي قنقر',
+    'نانسي قنقر',
+  ],
+  de: [
+    'untertitel im auftrag des zdf',
+    'untertitel der amaraorg community',
+    'untertitelung des zdf 2020',
+    'vielen dank fürs zuschauen',
+    'danke fürs zuschauen',
+  ],
+  es: [
+    'subtítulos realizados por la comunidad de amaraorg',
+    'gracias por ver',
+    'gracias por ver el video',
+    'suscríbete',
+  ],
+  fr: [
+    'soustitres réalisés par la communauté damaraorg',
+    'soustitrage st 501',
+    'merci davoir regardé',
+    'merci davoir regardé cette vidéo',
+    'abonnezvous',
+  ],
+  it: [
+    'sottotitoli creati dalla comunità amaraorg',
+    'sottotitoli e revisione a cura di qtss',
+    'grazie per la visione',
+  ],
+  ja: [
+    'ご視聴ありがとうございました',
+    'ご視聴ありがとうございます',
+    'チャンネル登録お願いします',
+    'チャンネル登録よろしくお願いします',
+  ],
+  ko: [
+    '시청해주셔서 감사합니다',
+    '구독과 좋아요 부탁드립니다',
+  ],
+  nl: [
+    'ondertiteld door de amaraorg gemeenschap',
+    'bedankt voor het kijken',
+  ],
+  pt: [
+    'legendas pela comunidade amaraorg',
+    'obrigado por assistir',
+    'inscrevase no canal',
+  ],
+  ru: [
+    'редактор субтитров асемкин корректор аегорова',
+    'субтитры сделал dimatorzok',
+    'спасибо за просмотр',
+    'продолжение следует',
+  ],
+  zh: [
+    '字幕由amaraorg社区提供',
+    '请不吝点赞 订阅 转发 打赏支持明镜与点点栏目',
+    '谢谢观看',
+    '感谢观看',
+  ],
+};
+
+// Whisper's tags for sounds that are not speech, like "[BLANK_AUDIO]" or "(music)"
+const NON_SPEECH_TAG = /[[(*]\s*(?:blank_audio|silence|music|upbeat music|applause|noise|no speech|inaudible)\s*[\])*]/giu;
+
+// Letters or digits: a cue without any is only punctuation or symbols like "♪"
+const SPEECH_CHARACTER = /[\p{L}\p{N}]/u;
+
+// Text shorter than this says too little about its timing: a "Yes." may be held for seconds
+const MIN_TIMED_WIDTH = 10;
+
+/**
+ * Lower-case text and remove punctuation, for comparing cues and matching phrases
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}\s]/gu, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * The known phrases to look for: those of the language, or of every language
+ * if it is not known. Phrases from the configuration always apply.
+ */
+function getKnownPhrases(language: string | null, extraPhrases: string[]): Set<string> {
+  const lists = language && language !== 'auto' ? [KNOWN_PHRASES[language] || []] : Object.values(KNOWN_PHRASES);
+  return new Set([...lists.flat(), ...extraPhrases].map(normalizeText));
+}
+
+/**
+ * Similarity of two strings from 0 (nothing in common) to 1 (equal),
+ * based on the Levenshtein distance
+ */
+export function textSimilarity(first: string, second: string): number {
+  const a = Array.from(first);
+  const b = Array.from(second);
+  if (a.length === 0 && b.length === 0) return 1;
+
+  let previous = b.map((_, index) => index + 1);
+  previous.unshift(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Cut a phrase repeated back to back more than maxRepeats times down to
+ * maxRepeats occurrences ("go on, go on, go on, go on." becomes "go on, go on."
+ * for 2). Phrases are compared by their words, ignoring case and punctuation.
+ * @param text The cue text
+ * @param maxRepeats How many times a phrase may be repeated in a row
+ * @param language Language of the text, null if unknown
+ * @returns The shortened text, or the text itself if nothing repeats
+ */
+export function collapseRepeatedPhrases(text: string, maxRepeats: number, language: string | null = null): string {
+  let units = segmentText(text, language);
+  const keyOf = (from: number, size: number) => units.slice(from, from + size).map(unit => normalizeText(unit.text)).join(' ');
+  let changed = false;
+
+  for (let size = 1; size * (maxRepeats + 1) <= units.length; size++) {
+    for (let start = 0; start + size * (maxRepeats + 1) <= units.length; start++) {
+      const phrase = keyOf(start, size);
+      let count = 1;
+      while (start + (count + 1) * size <= units.length && keyOf(start + count * size, size) === phrase) {
+        count++;
+      }
+
+      if (count > maxRepeats) {
+        // Keep the first occurrences and the last one, which has the punctuation ending the phrase
+        const removeFrom = start + (maxRepeats - 1) * size;
+        units = [...units.slice(0, removeFrom), ...units.slice(removeFrom + (count - maxRepeats) * size)];
+        changed = true;
+      }
+    }
+  }
+
+  return changed ? joinUnits(units) : text;
+}
+
+/**
+ * Whether the text is made only of known phrases, like "Thanks for watching!"
+ */
+function isKnownPhrase(text: string, phrases: Set<string>): boolean {
+  if (!text) return false;
+
+  // Longest first, so "thank you so much for watching" is not cut up by a shorter phrase
+  let remainder = text;
+  for (const phrase of Array.from(phrases).sort((a, b) => b.length - a.length)) {
+    if (phrase) remainder = remainder.split(phrase).join(' ');
+  }
+  return remainder.trim() === '';
+}
+
+/**
+ * Remove cues Whisper is known to make up: cues without speech (only
+ * punctuation, "♪" or tags like "[BLANK_AUDIO]"), known phrases like "Thanks
+ * for watching" written over silence, near-identical repeats of the previous
+ * cue, and cues with too much or too little text for their duration (not
+ * checked for short text or cues without a duration). Phrases looping inside
+ * a cue are cut down to maxPhraseRepeats occurrences.
+ * @param cues The cues in order
+ * @param options Filter settings
+ * @param language Language of the cues, null if unknown; cues with a language of their own use it
+ * @returns The remaining cues, and the cues that were removed or shortened
+ */
+export function filterHallucinations(
+  cues: Cue[],
+  options: HallucinationFilterOptions,
+  language: string | null = null
+): HallucinationFilterResult {
+  const phrasesByLanguage = new Map<string | null, Set<string>>();
+  const result: Cue[] = [];
+  const filtered: FilteredCue[] = [];
+  let lastKey: string | null = null;
+  let repeats = 0;
+
+  for (const cue of cues) {
+    const cueLanguage = cue.language || language;
+    let phrases = phrasesByLanguage.get(cueLanguage);
+    if (!phrases) {
+      phrases = getKnownPhrases(cueLanguage, options.hallucinationPhrases);
+      phrasesByLanguage.set(cueLanguage, phrases);
+    }
+
+    const speech = cue.text.replace(NON_SPEECH_TAG, ' ');
+    if (!SPEECH_CHARACTER.test(speech)) {
+      filtered.push({ cue, reason: 'no-speech', text: null });
+      continue;
+    }
+
+    if (isKnownPhrase(normalizeText(speech), phrases)) {
+      filtered.push({ cue, reason: 'known-phrase', text: null });
+      continue;
+    }
+
+    const text = collapseRepeatedPhrases(cue.text, options.maxPhraseRepeats, cueLanguage);
+
+    const key = normalizeText(text);
+    const width = textWidth(key);
+    const duration = cue.end - cue.start;
+    const timed = duration > 0 && width >= MIN_TIMED_WIDTH;
+    if (timed && (width * 1000 > options.maxSpeechCharsPerSecond * duration || duration > options.maxMsPerChar * width)) {
+      filtered.push({ cue, reason: 'implausible-timing', text: null });
+      continue;
+    }
+
+    if (lastKey !== null && textSimilarity(key, lastKey) * 100 >= options.repeatSimilarity) {
+      // Skip repeats beyond the allowed maximum
+      if (repeats >= options.maxDuplicates) {
+        filtered.push({ cue, reason: 'repeat', text: null });
+        continue;
+      }
+      repeats++;
+    } else {
+      repeats = 1;
+    }
+    lastKey = key;
+
+    if (text !== cue.text) {
+      filtered.push({ cue, reason: 'looping-phrase', text });
+      result.push({ ...cue, text });
+    } else {
+      result.push(cue);
+    }
+  }
+
+  return { cues: result, filtered };
+}
+
+/**
+ * Describe a filtered cue for the log, like `00:01:02.000 "Thanks for watching" (known phrase)`
+ */
+export function describeFilteredCue({ cue, reason, text }: FilteredCue): string {
+  const original = cue.text.replace(/\s+/g, ' ').trim();
+  const change = text === null ? '' : ` → "${text.replace(/\s+/g, ' ').trim()}"`;
+  return `${formatTimestamp(cue.start, 'vtt')} "${original}"${change} (${reason.replace(/-/g, ' ')})`;
+}
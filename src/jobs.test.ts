@@ -0,0 +1,68 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { addJobs, finishJob, getJobs, hasUnfinishedJobs, loadJobStore, retryJob, saveJobStore, startJob } from './jobs';
+
+async function withTempDir(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'whispernode-test-'));
+  try {
+    await run(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+test('re-queues the jobs a crashed run left running, in queue order', () => withTempDir(async dir => {
+  const filePath = path.join(dir, 'jobs.json');
+  const store = await loadJobStore(filePath);
+  addJobs(store, ['/videos/a.mp4', '/videos/b.mp4', '/videos/c.mp4', '/videos/d.mp4']);
+  await saveJobStore(store);
+
+  await startJob(store, '/videos/a.mp4');
+  await finishJob(store, '/videos/a.mp4');
+  // Saves are chained, so the file holds the last state even when they are not awaited one by one
+  startJob(store, '/videos/b.mp4');
+  startJob(store, '/videos/c.mp4');
+  finishJob(store, '/videos/c.mp4', new Error('ffmpeg failed'));
+  await store.pendingWrite;
+
+  // The run crashes here, with b.mp4 still running
+  const reloaded = await loadJobStore(filePath);
+  assert.equal(hasUnfinishedJobs(reloaded), true);
+  assert.deepEqual(reloaded.jobs.map(({ videoPath, status, attempts }) => [videoPath, status, attempts]), [
+    ['/videos/a.mp4', 'done', 1],
+    ['/videos/b.mp4', 'pending', 1],
+    ['/videos/c.mp4', 'failed', 1],
+    ['/videos/d.mp4', 'pending', 0],
+  ]);
+  assert.equal(reloaded.jobs[2].error, 'ffmpeg failed');
+  assert.deepEqual(getJobs(reloaded, 'pending').map(job => job.videoPath), ['/videos/b.mp4', '/videos/d.mp4']);
+}));
+
+test('keeps the attempts of a retried job across a crash', () => withTempDir(async dir => {
+  const filePath = path.join(dir, 'jobs.json');
+  const store = await loadJobStore(filePath);
+  addJobs(store, ['/videos/a.mp4']);
+
+  await startJob(store, '/videos/a.mp4');
+  await retryJob(store, '/videos/a.mp4', new Error('timed out'));
+  assert.deepEqual(getJobs(store, 'pending').map(({ attempts, error }) => [attempts, error]), [[1, 'timed out']]);
+  await startJob(store, '/videos/a.mp4');
+
+  const reloaded = await loadJobStore(filePath);
+  assert.deepEqual(reloaded.jobs.map(({ status, attempts }) => [status, attempts]), [['pending', 2]]);
+  // Jobs already known are not queued twice
+  assert.equal(addJobs(reloaded, ['/videos/a.mp4', '/videos/b.mp4']), 1);
+}));
+
+test('starts fresh from a missing or unreadable job store', () => withTempDir(async dir => {
+  const missing = await loadJobStore(path.join(dir, 'missing.json'));
+  assert.deepEqual(missing.jobs, []);
+  assert.equal(hasUnfinishedJobs(missing), false);
+
+  const filePath = path.join(dir, 'jobs.json');
+  await fs.writeFile(filePath, '{"version": 1, "jobs": [');
+  assert.deepEqual((await loadJobStore(filePath)).jobs, []);
+}));
@@ -0,0 +1,168 @@
+import path from 'path';
+import fs from 'fs-extra';
+import type { SpeechSummary } from './vad';
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface Job {
+  videoPath: string;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  speech?: SpeechSummary; // Set when only the speech was transcribed (see vad.ts)
+  updatedAt: string;
+}
+
+export interface JobStore {
+  filePath: string;
+  jobs: Job[];
+  // Writes are chained so parallel workers never write the file concurrently
+  pendingWrite: Promise<void>;
+}
+
+const JOB_STORE_VERSION = 1;
+
+/**
+ * Load the job store from disk. Jobs left "running" by a crashed or killed
+ * run are moved back to "pending" so they are picked up again.
+ * @param filePath Path to the job store JSON file
+ */
+export async function loadJobStore(filePath: string): Promise<JobStore> {
+  const store: JobStore = { filePath, jobs: [], pendingWrite: Promise.resolve() };
+
+  try {
+    if (await fs.pathExists(filePath)) {
+      const data = await fs.readJson(filePath);
+      if (data.version === JOB_STORE_VERSION && Array.isArray(data.jobs)) {
+        store.jobs = data.jobs;
+      } else {
+        console.log(`⚠️ Ignoring job store with unknown version: ${filePath}`);
+      }
+    }
+  } catch (error) {
+    console.error(`❌ Error reading job store ${filePath}, starting fresh:`, error);
+  }
+
+  const interrupted = store.jobs.filter(job => job.status === 'running');
+  for (const job of interrupted) {
+    updateJob(job, 'pending');
+  }
+  if (interrupted.length > 0) {
+    console.log(`🔁 Re-queued ${interrupted.length} job(s) interrupted by the previous run`);
+  }
+
+  return store;
+}
+
+/**
+ * Persist the job store atomically (temp file + rename)
+ */
+export function saveJobStore(store: JobStore): Promise<void> {
+  store.pendingWrite = store.pendingWrite
+    .then(async () => {
+      await fs.ensureDir(path.dirname(store.filePath));
+      const tempPath = `${store.filePath}.tmp`;
+      await fs.writeJson(tempPath, { version: JOB_STORE_VERSION, jobs: store.jobs }, { spaces: 2 });
+      await fs.rename(tempPath, store.filePath);
+    })
+    .catch(error => {
+      console.error(`❌ Error saving job store ${store.filePath}:`, error);
+    });
+  return store.pendingWrite;
+}
+
+/**
+ * Whether the previous run stopped before finishing all of its jobs
+ */
+export function hasUnfinishedJobs(store: JobStore): boolean {
+  return store.jobs.some(job => job.status === 'pending' || job.status === 'running');
+}
+
+/**
+ * Start a new batch, dropping the jobs of the previous (finished) run
+ */
+export function resetJobs(store: JobStore): void {
+  store.jobs = [];
+}
+
+/**
+ * Queue videos that are not in the store yet
+ * @returns The number of jobs added
+ */
+export function addJobs(store: JobStore, videoPaths: string[]): number {
+  const known = new Set(store.jobs.map(job => job.videoPath));
+  let added = 0;
+
+  for (const videoPath of videoPaths) {
+    if (!known.has(videoPath)) {
+      store.jobs.push({ videoPath, status: 'pending', attempts: 0, updatedAt: new Date().toISOString() });
+      known.add(videoPath);
+      added++;
+    }
+  }
+
+  return added;
+}
+
+/**
+ * Get all jobs with the given status, in queue order
+ */
+export function getJobs(store: JobStore, status: JobStatus): Job[] {
+  return store.jobs.filter(job => job.status === status);
+}
+
+/**
+ * Mark a job as running and count the attempt
+ */
+export function startJob(store: JobStore, videoPath: string): Promise<void> {
+  const job = findJob(store, videoPath);
+  job.attempts++;
+  updateJob(job, 'running');
+  return saveJobStore(store);
+}
+
+/**
+ * Mark a job as done, or as failed if an error is given
+ */
+export function finishJob(store: JobStore, videoPath: string, error?: unknown): Promise<void> {
+  const job = findJob(store, videoPath);
+  if (error === undefined) {
+    updateJob(job, 'done');
+  } else {
+    updateJob(job, 'failed', error instanceof Error ? error.message : String(error));
+  }
+  return saveJobStore(store);
+}
+
+/**
+ * Record how much of a video was speech, saved with the job when it finishes
+ */
+export function recordSpeech(store: JobStore, videoPath: string, speech: SpeechSummary): void {
+  findJob(store, videoPath).speech = speech;
+}
+
+/**
+ * Put a failed job back in the queue, keeping the error of the last attempt
+ */
+export function retryJob(store: JobStore, videoPath: string, error: unknown): Promise<void> {
+  const job = findJob(store, videoPath);
+  updateJob(job, 'pending', error instanceof Error ? error.message : String(error));
+  return saveJobStore(store);
+}
+
+/**
+ * Look up the job for a video, which must have been queued with addJobs
+ */
+export function findJob(store: JobStore, videoPath: string): Job {
+  const job = store.jobs.find(candidate => candidate.videoPath === videoPath);
+  if (!job) {
+    throw new Error(`No job queued for ${videoPath}`);
+  }
+  return job;
+}
+
+function updateJob(job: Job, status: JobStatus, error?: string): void {
+  job.status = status;
+  job.error = error;
+  job.updatedAt = new Date().toISOString();
+}
@@ -0,0 +1,175 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Config, LANGUAGE_CODES } from './config';
+import { probeMedia } from './probe';
+import { findWhisperExecutable, getModelPath } from './whisper';
+
+const execFileAsync = promisify(execFile);
+
+// Settings that control audio language identification
+export type LanguageIdOptions = Pick<Config, 'modelName' | 'minLanguageConfidence' | 'languageSampleWindows'>;
+
+export interface LanguageCandidate {
+  language: string;    // Whisper language code
+  probability: number; // From 0 to 1
+}
+
+export interface LanguageIdentification {
+  language: string | null;         // The most likely language, null if below the confidence threshold
+  confidence: number;              // Probability of the most likely language, from 0 to 1
+  candidates: LanguageCandidate[]; // Most likely first
+  samples: number;                 // Audio windows the probabilities are averaged over
+}
+
+// Whisper identifies the language from the first 30 seconds of its input
+const WINDOW_SECONDS = 30;
+
+// Candidates kept in the result; the rest are too unlikely to be useful
+const MAX_CANDIDATES = 5;
+
+// whisper.cpp logs "auto-detected language: en (p = 0.987654)"
+const DETECTED_LANGUAGE = /auto-detected language: (\w+) \(p = ([\d.]+)\)/;
+
+/**
+ * Start times of windows spread evenly across the file, each in the middle of its part
+ * @param duration Length of the file in seconds, null if unknown
+ * @param windows Number of windows
+ */
+function getWindowStarts(duration: number | null, windows: number): number[] {
+  if (!duration || duration <= WINDOW_SECONDS) {
+    return [0];
+  }
+
+  const count = Math.min(windows, Math.floor(duration / WINDOW_SECONDS));
+  const part = duration / count;
+  return Array.from({ length: count }, (_, index) =>
+    Math.max(0, Math.round(part * (index + 0.5) - WINDOW_SECONDS / 2))
+  );
+}
+
+/**
+ * The whisper-cli executable and the model file to identify languages with
+ */
+async function resolveWhisperModel(modelName: string): Promise<{ executable: string; modelPath: string }> {
+  if (modelName.endsWith('.en')) {
+    throw new Error(`The ${modelName} model only knows English and cannot identify languages`);
+  }
+  const modelPath = getModelPath(modelName);
+  if (!modelPath || !(await fs.pathExists(modelPath))) {
+    throw new Error(`Model ${modelName} is not downloaded, run "whispernode models download ${modelName}"`);
+  }
+  const executable = findWhisperExecutable();
+  if (!executable) {
+    throw new Error('whisper-cli executable not found, run a transcription first to build whisper.cpp');
+  }
+  return { executable, modelPath };
+}
+
+/**
+ * Let Whisper identify the language of one window of a file
+ * @returns The most likely language and its probability, null if Whisper gave none
+ */
+async function identifyWindow(
+  mediaPath: string,
+  start: number,
+  seconds: number,
+  { executable, modelPath }: { executable: string; modelPath: string }
+): Promise<LanguageCandidate | null> {
+  const wavPath = path.join(os.tmpdir(), `whispernode-langid-${process.pid}-${Date.now()}-${start}.wav`);
+
+  try {
+    await execFileAsync('ffmpeg', [
+      '-nostats', '-loglevel', 'error', '-y',
+      '-ss', String(start), '-t', String(seconds),
+      '-i', mediaPath,
+      '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+      wavPath,
+    ]);
+
+    const { stdout, stderr } = await execFileAsync(executable, ['-l', 'auto', '-dl', '-m', modelPath, '-f', wavPath]);
+    const match = DETECTED_LANGUAGE.exec(`${stderr}\n${stdout}`);
+    return match && LANGUAGE_CODES.includes(match[1])
+      ? { language: match[1], probability: parseFloat(match[2]) }
+      : null;
+  } finally {
+    await fs.remove(wavPath);
+  }
+}
+
+/**
+ * Identify the spoken language from the audio: Whisper's language
+ * identification runs on a few 30 second windows spread across the file, and
+ * the probabilities of the languages it picks are averaged. A language is only
+ * chosen when its average reaches minLanguageConfidence, so a file that is
+ * mostly music, silence or several languages is left to the other methods.
+ * @param mediaPath The video or audio file
+ * @param options Model, threshold and number of windows
+ * @param duration Length of the file in seconds; probed if not given
+ * @returns The candidates, and the language if one is likely enough
+ */
+export async function identifyLanguage(
+  mediaPath: string,
+  options: LanguageIdOptions,
+  duration?: number | null
+): Promise<LanguageIdentification> {
+  const whisper = await resolveWhisperModel(options.modelName);
+  if (duration === undefined) {
+    duration = (await probeMedia(mediaPath)).duration;
+  }
+
+  // Windows run one after another, each one loads the model
+  const results: LanguageCandidate[] = [];
+  for (const start of getWindowStarts(duration, options.languageSampleWindows)) {
+    const result = await identifyWindow(mediaPath, start, WINDOW_SECONDS, whisper);
+    if (result) {
+      results.push(result);
+    }
+  }
+  if (results.length === 0) {
+    throw new Error(`Whisper did not identify a language in ${path.basename(mediaPath)}`);
+  }
+
+  const totals = new Map<string, number>();
+  for (const { language, probability } of results) {
+    totals.set(language, (totals.get(language) || 0) + probability);
+  }
+  const candidates = Array.from(totals, ([language, total]) => ({ language, probability: total / results.length }))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, MAX_CANDIDATES);
+
+  const [best] = candidates;
+  return {
+    language: best.probability * 100 >= options.minLanguageConfidence ? best.language : null,
+    confidence: best.probability,
+    candidates,
+    samples: results.length,
+  };
+}
+
+/**
+ * Identify the language of one part of a file, for files that switch languages
+ * @param mediaPath The video or audio file
+ * @param start Start of the part in seconds
+ * @param seconds Length of the part, at most 30 seconds are listened to
+ * @param modelName A multilingual Whisper model
+ * @returns The most likely language and its probability, null if Whisper gave none
+ */
+export async function identifySpanLanguage(
+  mediaPath: string,
+  start: number,
+  seconds: number,
+  modelName: string
+): Promise<LanguageCandidate | null> {
+  return identifyWindow(mediaPath, start, Math.min(seconds, WINDOW_SECONDS), await resolveWhisperModel(modelName));
+}
+
+/**
+ * Describe an identification for the log, like "ar 92% (en 5%)"
+ */
+export function describeIdentification({ candidates }: LanguageIdentification): string {
+  const [best, ...others] = candidates.map(({ language, probability }) => `${language} ${Math.round(probability * 100)}%`);
+  return others.length > 0 ? `${best} (${others.join(', ')})` : best;
+}
@@ -0,0 +1,81 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { TranscriptionSettings, isUpToDate, loadManifest, recordProcessed, saveManifest } from './manifest';
+
+const settings: TranscriptionSettings = { modelName: 'base', language: 'en', formats: ['srt', 'vtt'], translations: [] };
+
+/**
+ * Record a processed video with one output in a fresh manifest in a temporary directory
+ */
+async function setUp() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'whispernode-test-'));
+  const videoPath = path.join(dir, 'talk.mp4');
+  const outputPath = path.join(dir, 'talk.srt');
+  await fs.writeFile(videoPath, 'original content');
+  await fs.writeFile(outputPath, 'subtitles');
+
+  const manifestPath = path.join(dir, 'manifest.json');
+  const manifest = await loadManifest(manifestPath);
+  await recordProcessed(manifest, videoPath, settings, [outputPath]);
+  await saveManifest(manifestPath, manifest);
+  return { dir, videoPath, outputPath, manifestPath };
+}
+
+// Move a file's modification time a minute ahead
+async function touch(filePath: string): Promise<void> {
+  const { mtime } = await fs.stat(filePath);
+  const later = new Date(mtime.getTime() + 60_000);
+  await fs.utimes(filePath, later, later);
+}
+
+test('skips an unchanged video after the manifest is reloaded', async () => {
+  const { dir, videoPath, manifestPath } = await setUp();
+  try {
+    const manifest = await loadManifest(manifestPath);
+    assert.equal(await isUpToDate(manifest, videoPath, settings), true);
+    assert.equal(await isUpToDate(manifest, videoPath, { ...settings, formats: ['vtt', 'srt'] }), true);
+  } finally {
+    await fs.remove(dir);
+  }
+});
+
+test('skips a touched video with the same content by its hash', async () => {
+  const { dir, videoPath, manifestPath } = await setUp();
+  try {
+    await touch(videoPath);
+    const manifest = await loadManifest(manifestPath);
+    assert.equal(await isUpToDate(manifest, videoPath, settings), true);
+    // The new modification time is remembered, so the hash is not computed again
+    assert.equal(manifest.entries[videoPath].mtimeMs, (await fs.stat(videoPath)).mtimeMs);
+  } finally {
+    await fs.remove(dir);
+  }
+});
+
+test('re-runs a video whose content hash changed, even at the same size', async () => {
+  const { dir, videoPath, manifestPath } = await setUp();
+  try {
+    await fs.writeFile(videoPath, 'modified content');
+    await touch(videoPath);
+    assert.equal(await isUpToDate(await loadManifest(manifestPath), videoPath, settings), false);
+  } finally {
+    await fs.remove(dir);
+  }
+});
+
+test('re-runs a video with other settings or a missing output', async () => {
+  const { dir, videoPath, outputPath, manifestPath } = await setUp();
+  try {
+    const manifest = await loadManifest(manifestPath);
+    assert.equal(await isUpToDate(manifest, videoPath, { ...settings, modelName: 'small' }), false);
+    assert.equal(await isUpToDate(manifest, videoPath, { ...settings, translations: ['fr'] }), false);
+
+    await fs.remove(outputPath);
+    assert.equal(await isUpToDate(manifest, videoPath, settings), false);
+  } finally {
+    await fs.remove(dir);
+  }
+});
@@ -0,0 +1,149 @@
+import path from 'path';
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import { LanguageIdentification } from './languageId';
+
+// Settings that change the generated output when they change
+export interface TranscriptionSettings {
+  modelName: string;
+  language: string | null;
+  formats: string[];
+  translations: string[]; // Languages the subtitles are translated into
+}
+
+export interface ManifestEntry extends TranscriptionSettings {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+  outputs: string[];   // Generated files, so deleted outputs trigger a re-run
+  processedAt: string;
+  languageIdentification?: LanguageIdentification; // Set when the language was identified from the audio
+}
+
+export interface Manifest {
+  version: number;
+  entries: Record<string, ManifestEntry>; // Keyed by the video's absolute path
+}
+
+const MANIFEST_VERSION = 1;
+
+/**
+ * Load the manifest from disk, starting fresh if it is missing or unreadable
+ * @param manifestPath Path to the manifest JSON file
+ */
+export async function loadManifest(manifestPath: string): Promise<Manifest> {
+  try {
+    if (await fs.pathExists(manifestPath)) {
+      const manifest = await fs.readJson(manifestPath);
+      if (manifest.version === MANIFEST_VERSION && manifest.entries) {
+        return manifest;
+      }
+      console.log(`⚠️ Ignoring manifest with unknown version: ${manifestPath}`);
+    }
+  } catch (error) {
+    console.error(`❌ Error reading manifest ${manifestPath}, starting fresh:`, error);
+  }
+
+  return { version: MANIFEST_VERSION, entries: {} };
+}
+
+/**
+ * Write the manifest to disk atomically (temp file + rename)
+ * @param manifestPath Path to the manifest JSON file
+ * @param manifest The manifest to save
+ */
+export async function saveManifest(manifestPath: string, manifest: Manifest): Promise<void> {
+  await fs.ensureDir(path.dirname(manifestPath));
+  const tempPath = `${manifestPath}.tmp`;
+  await fs.writeJson(tempPath, manifest, { spaces: 2 });
+  await fs.rename(tempPath, manifestPath);
+}
+
+/**
+ * Compute the SHA-256 hash of a file's content
+ */
+export function computeFileHash(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    const stream = fs.createReadStream(filePath);
+    stream.on('data', chunk => hash.update(chunk));
+    stream.on('end', () => resolve(hash.digest('hex')));
+    stream.on('error', reject);
+  });
+}
+
+function sameSettings(entry: ManifestEntry, settings: TranscriptionSettings): boolean {
+  return entry.modelName === settings.modelName &&
+    entry.language === settings.language &&
+    entry.formats.length === settings.formats.length &&
+    settings.formats.every(format => entry.formats.includes(format)) &&
+    // Entries written before translation existed have no translations
+    (entry.translations || []).length === settings.translations.length &&
+    settings.translations.every(target => (entry.translations || []).includes(target));
+}
+
+/**
+ * Check whether a video's outputs are up to date with its source and settings
+ * The content hash is only computed when size or mtime changed
+ * @param manifest The loaded manifest
+ * @param videoPath Path to the source video
+ * @param settings The settings the video would be transcribed with now
+ * @returns True if the video can be skipped
+ */
+export async function isUpToDate(
+  manifest: Manifest,
+  videoPath: string,
+  settings: TranscriptionSettings
+): Promise<boolean> {
+  const entry = manifest.entries[path.resolve(videoPath)];
+  if (!entry || !sameSettings(entry, settings)) {
+    return false;
+  }
+
+  for (const output of entry.outputs) {
+    if (!(await fs.pathExists(output))) {
+      return false;
+    }
+  }
+
+  const stats = await fs.stat(videoPath);
+  if (stats.size === entry.size && stats.mtimeMs === entry.mtimeMs) {
+    return true;
+  }
+
+  // Touched or copied but possibly unchanged - compare content
+  if (stats.size !== entry.size || (await computeFileHash(videoPath)) !== entry.hash) {
+    return false;
+  }
+
+  entry.mtimeMs = stats.mtimeMs;
+  return true;
+}
+
+/**
+ * Record a successfully processed video in the manifest
+ * @param manifest The loaded manifest
+ * @param videoPath Path to the source video
+ * @param settings The settings the video was transcribed with
+ * @param outputs The files that were generated
+ * @param languageIdentification The result of identifying the language from the audio, if it ran
+ */
+export async function recordProcessed(
+  manifest: Manifest,
+  videoPath: string,
+  settings: TranscriptionSettings,
+  outputs: string[],
+  languageIdentification: LanguageIdentification | null = null
+): Promise<void> {
+  const stats = await fs.stat(videoPath);
+
+  manifest.entries[path.resolve(videoPath)] = {
+    ...settings,
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    hash: await computeFileHash(videoPath),
+    outputs,
+    processedAt: new Date().toISOString(),
+    ...(languageIdentification ? { languageIdentification } : {}),
+  };
+}
@@ -0,0 +1,128 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Config } from './config';
+import { Cue, parseSubtitles } from './subtitles';
+import { identifySpanLanguage } from './languageId';
+
+const execFileAsync = promisify(execFile);
+
+// Settings that control the detection of language changes
+export type LanguageRunOptions = Pick<
+  Config,
+  'modelName' | 'minLanguageConfidence' | 'languageChunkSeconds' | 'multiLanguageCodes'
+>;
+
+// A stretch of audio in one language, times in milliseconds
+export interface LanguageRun {
+  language: string; // Whisper language code, 'auto' if it could not be identified
+  start: number;
+  end: number;
+}
+
+/**
+ * Find where a recording switches languages: the language of each chunk of
+ * languageChunkSeconds is identified, and consecutive chunks in the same
+ * language become one run. Chunks Whisper is not sure about, or that are in
+ * a language outside multiLanguageCodes, belong to the run before them (or
+ * the one after them at the start).
+ * @param audioPath The audio to look at
+ * @param duration Length of the audio in milliseconds
+ * @param options Model, chunk length, threshold and expected languages
+ * @param fallback Language of runs where no chunk was identified
+ * @returns The runs in order, covering the whole audio
+ */
+export async function detectLanguageRuns(
+  audioPath: string,
+  duration: number,
+  options: LanguageRunOptions,
+  fallback: string
+): Promise<LanguageRun[]> {
+  const chunkMs = options.languageChunkSeconds * 1000;
+  const runs: { language: string | null; start: number; end: number }[] = [];
+
+  for (let start = 0; start < duration; start += chunkMs) {
+    const end = Math.min(duration, start + chunkMs);
+    const candidate = await identifySpanLanguage(audioPath, start / 1000, (end - start) / 1000, options.modelName);
+    const expected = candidate !== null &&
+      (options.multiLanguageCodes.length === 0 || options.multiLanguageCodes.includes(candidate.language));
+    const language = expected && candidate!.probability * 100 >= options.minLanguageConfidence ? candidate!.language : null;
+
+    const previous = runs[runs.length - 1];
+    if (previous && (language === null || previous.language === null || previous.language === language)) {
+      previous.language = previous.language || language;
+      previous.end = end;
+    } else {
+      runs.push({ language, start, end });
+    }
+  }
+
+  return runs.map(run => ({ ...run, language: run.language || fallback }));
+}
+
+/**
+ * Transcribe each run with its own language and stitch the cues into one list
+ * on the timeline of the whole audio. Every cue keeps the language of its run.
+ * @param audioPath The audio the runs belong to, a 16 kHz WAV
+ * @param runs The runs from detectLanguageRuns
+ * @param transcribeRun Transcribes a WAV in a language, writing "<wav>.srt"
+ * @returns The cues of all runs in order
+ */
+export async function transcribeLanguageRuns(
+  audioPath: string,
+  runs: LanguageRun[],
+  transcribeRun: (runAudioPath: string, language: string) => Promise<void>
+): Promise<Cue[]> {
+  const cues: Cue[] = [];
+  // Not next to the audio, which videos with the same audio share in the audio cache
+  const runsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whispernode-runs-'));
+
+  try {
+    for (const [index, run] of runs.entries()) {
+      const runAudioPath = path.join(runsDir, `run${index + 1}.wav`);
+      const runSrtPath = `${runAudioPath}.srt`;
+
+      try {
+        await execFileAsync('ffmpeg', [
+          '-nostats', '-loglevel', 'error', '-y',
+          '-ss', String(run.start / 1000), '-t', String((run.end - run.start) / 1000),
+          '-i', audioPath,
+          '-c:a', 'pcm_s16le',
+          runAudioPath,
+        ]);
+        await transcribeRun(runAudioPath, run.language);
+
+        const { cues: runCues } = parseSubtitles(await fs.readFile(runSrtPath, 'utf8'), 'srt');
+        for (const cue of runCues) {
+          cues.push({
+            ...cue,
+            id: null,
+            start: cue.start + run.start,
+            end: Math.min(cue.end + run.start, run.end),
+            ...(run.language !== 'auto' ? { language: run.language } : {}),
+          });
+        }
+      } finally {
+        await fs.remove(runAudioPath);
+        await fs.remove(runSrtPath);
+      }
+    }
+  } finally {
+    await fs.remove(runsDir);
+  }
+
+  return cues;
+}
+
+/**
+ * Describe runs for the log, like "ar 0:00-4:30, en 4:30-6:00"
+ */
+export function describeLanguageRuns(runs: LanguageRun[]): string {
+  const clock = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+  return runs.map(run => `${run.language} ${clock(run.start)}-${clock(run.end)}`).join(', ');
+}
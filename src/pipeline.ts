@@ -0,0 +1,1324 @@
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { config, Config, FORMAT_EXTENSIONS, LANGUAGE_NAMES, getStatePath, initializeEnvironment } from './config';
+import { resolveVideoConfig } from './configFile';
+import { Segment, extractVideoId, detectLanguage, detectLanguageEnhanced, detectLanguageAuto, resolveOutputDir, parseTranscript } from './utils';
+import { postProcessSubtitles, processCues, logFilteredCues } from './postprocess';
+import { Cue, SubtitleDocument, parseSubtitles, serializeSubtitles } from './subtitles';
+import { CONVERTED_FORMATS, writeConvertedFormats, writeJson } from './formats';
+import {
+  canEmbedSubtitles,
+  embedSubtitles,
+  findSubtitleTracks,
+  getEmbeddedVideoPath,
+  isGeneratedVideo,
+  findExistingSubtitleTrack,
+  isTextSubtitleTrack,
+  extractSubtitleTrack,
+} from './embed';
+import { MediaInfo, LanguageHint, probeMedia, getLanguageHint } from './probe';
+import { LanguageIdentification, identifyLanguage, describeIdentification } from './languageId';
+import { detectLanguageRuns, transcribeLanguageRuns, describeLanguageRuns } from './multilang';
+import { createTranslator, translateCues } from './translate';
+import { extractAudio } from './audio';
+import { getCachedAudio, releaseCachedAudio } from './audioCache';
+import { SpeechSummary, SpeechTimeline, detectSpeech, writeSpeechAudio, remapCues, summarizeSpeech } from './vad';
+import { AudioChunk, planChunks, transcribeChunks, stitchChunks } from './chunking';
+import { scanVideos } from './scanner';
+import { Manifest, TranscriptionSettings, loadManifest, saveManifest, isUpToDate, recordProcessed } from './manifest';
+import {
+  JobStore,
+  loadJobStore,
+  saveJobStore,
+  hasUnfinishedJobs,
+  resetJobs,
+  addJobs,
+  getJobs,
+  startJob,
+  finishJob,
+  retryJob,
+  findJob,
+  recordSpeech,
+} from './jobs';
+import { isRetryableError, getRetryDelay, sleep } from './retry';
+import { RunReport, buildRunReport, writeRunReport, printRunReport } from './report';
+import { WhisperOptions, WhisperRun, WhisperRunHandlers, prepareWhisper, runWhisper } from './whisper';
+import { WhisperPool, createWhisperPool } from './whisperPool';
+
+export interface BatchOptions {
+  inputs: string[];  // Video files or directories to scan, defaults to videosDir
+  force: boolean;    // Re-process videos whose outputs are up to date
+  parallel: boolean; // Use the parallel queue even with maxConcurrentProcesses = 1
+}
+
+export interface BatchPlan {
+  outdated: string[]; // Videos that need to be (re-)processed
+  upToDate: string[];
+}
+
+export interface TranscriptionResult {
+  videoPath: string;
+  language: string | null; // The language requested from Whisper, 'auto' or null
+  segments: Segment[];
+  outputs: string[];       // Paths of the files written
+  source: SubtitleSource;
+  languageIdentification: LanguageIdentification | null; // Set when the language was identified from the audio
+  speech: SpeechSummary | null; // Set when only the speech was transcribed
+}
+
+// The speech-only audio of a video and where its speech is in the original (see vad.ts)
+interface SpeechAudio {
+  audioPath: string;
+  timeline: SpeechTimeline;
+}
+
+// The chunks of long audio and where their transcripts are checkpointed (see chunking.ts)
+interface ChunkPlan {
+  chunks: AudioChunk[];
+  checkpointDir: string;
+  checkpointKey: string;
+}
+
+// Where the subtitles of a video came from: Whisper, a subtitle track of the
+// video, or nowhere because the video already has them (see existingSubtitles)
+export type SubtitleSource = 'transcribed' | 'extracted' | 'skipped';
+
+// The steps of transcribing one video, in order
+export type TranscriptionStage = 'extracting-audio' | 'transcribing' | 'finalizing';
+
+// Extensions of the files generated for a video
+const OUTPUT_EXTENSIONS = Object.values(FORMAT_EXTENSIONS);
+
+/**
+ * Whether any format converted from the SRT output is enabled; whisper.cpp
+ * must then write SRT even if it is not wanted itself
+ */
+function needsConvertedFormats(videoConfig: Config): boolean {
+  return CONVERTED_FORMATS.some(format => videoConfig.formats[format]);
+}
+
+/**
+ * Whether whisper.cpp must write SRT: for SRT output itself, or as the source
+ * of the converted formats and the translations
+ */
+function needsSrtOutput(videoConfig: Config): boolean {
+  return videoConfig.formats.srt || needsConvertedFormats(videoConfig) || videoConfig.translationTargets.length > 0;
+}
+
+// Track processing progress
+let processedCount = 0;
+let totalVideos = 0;
+
+// Incremental processing state, loaded in runBatch()
+let manifest: Manifest = { version: 1, entries: {} };
+let manifestWrite: Promise<void> = Promise.resolve();
+
+// Durable job queue, loaded in runBatch()
+let jobStore: JobStore = { filePath: '', jobs: [], pendingWrite: Promise.resolve() };
+
+// Set by requestStop(): videos already being processed finish, the rest stay pending
+let stopRequested = false;
+// Lets the parallel queue notice a stop while it is only waiting for retry delays
+let wakeBatch: () => void = () => {};
+
+/**
+ * Stop the running batch gracefully
+ * Videos that are being processed finish; videos that have not started stay
+ * pending in the job store and are resumed by the next run.
+ */
+export function requestStop(): void {
+  stopRequested = true;
+  wakeBatch();
+}
+
+// Create output directory if it doesn't exist
+async function ensureDirectories() {
+  await fs.ensureDir(config.videosDir);
+  await fs.ensureDir(config.outputDir);
+  console.log('Directories ready');
+}
+
+/**
+ * Custom hook to preserve the video ID in the output files
+ * This function will be called after whisper.cpp completes
+ * @param originalFilePath The original video file path
+ * @param dirPath The directory the output files were written to
+ */
+async function handleOutputFiles(originalFilePath: string, dirPath: string): Promise<void> {
+  const originalFileName = path.basename(originalFilePath);
+  const { baseName, videoId, extension } = extractVideoId(originalFileName);
+  
+  // If there's no video ID, no need to rename files
+  if (!videoId) return;
+  
+  const baseNameWithoutExt = path.basename(originalFilePath, extension);
+  
+  // Get list of generated subtitle files (they'll have same basename but different extensions)
+  const files = await fs.readdir(dirPath);
+  
+  for (const file of files) {
+    // Find files with the same base name but different extension
+    const outputExtension = path.extname(file);
+    
+    if (
+      OUTPUT_EXTENSIONS.includes(outputExtension) &&
+      file.startsWith(baseNameWithoutExt) &&
+      !file.includes(videoId)
+    ) {
+      // This is a generated subtitle file without the video ID
+      const newFileName = `${baseNameWithoutExt}${videoId}${outputExtension}`;
+      const oldPath = path.join(dirPath, file);
+      const newPath = path.join(dirPath, newFileName);
+      
+      try {
+        await fs.rename(oldPath, newPath);
+        console.log(`✅ Renamed: ${file} -> ${newFileName}`);
+      } catch (error) {
+        console.error(`❌ Error renaming ${file}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Where whisper.cpp writes the output files of a video, without extension.
+ * Not next to the WAV, which videos with the same audio share in the audio cache.
+ * @param outputDir The directory the output files belong in
+ * @param baseFileName The video filename without extension
+ */
+function getWhisperOutputPrefix(outputDir: string, baseFileName: string): string {
+  return path.join(outputDir, `.${baseFileName}.whisper`);
+}
+
+/**
+ * Moves the files whisper.cpp wrote for a video (e.g. ".name.whisper.srt")
+ * to "name.srt" in the output directory
+ * @param outputDir The directory the output files belong in
+ * @param baseFileName The video filename without extension
+ */
+async function collectWhisperOutputs(outputDir: string, baseFileName: string): Promise<void> {
+  for (const extension of OUTPUT_EXTENSIONS) {
+    const generatedFile = `${getWhisperOutputPrefix(outputDir, baseFileName)}${extension}`;
+    if (await fs.pathExists(generatedFile)) {
+      await fs.move(generatedFile, path.join(outputDir, `${baseFileName}${extension}`), { overwrite: true });
+    }
+  }
+}
+
+/**
+ * Post-process the SRT and WebVTT files whisper.cpp wrote for a video and
+ * write the converted formats from the SRT
+ * @param outputDir The directory the output files belong in
+ * @param baseFileName The video filename without extension
+ * @param videoConfig Configuration of the video
+ * @param subtitleLanguage Language of the subtitles, 'auto' or null
+ * @returns The post-processed cues of the SRT, null if there is none
+ */
+async function postProcessOutputs(
+  outputDir: string,
+  baseFileName: string,
+  videoConfig: Config,
+  subtitleLanguage: string | null
+): Promise<Cue[] | null> {
+  let cues: Cue[] | null = null;
+  
+  // Post-process the subtitle files to combine single characters into word groups
+  if (needsSrtOutput(videoConfig)) {
+    const srtFile = path.join(outputDir, `${baseFileName}.srt`);
+    if (await fs.pathExists(srtFile)) {
+      await postProcessSubtitles(srtFile, videoConfig, subtitleLanguage);
+      
+      // The other subtitle formats and the translations are written from the post-processed cues
+      cues = parseSubtitles(await fs.readFile(srtFile, 'utf8'), 'srt').cues;
+      if (needsConvertedFormats(videoConfig)) {
+        await writeConvertedFormats(cues, outputDir, baseFileName, videoConfig, subtitleLanguage);
+      }
+      if (!videoConfig.formats.srt) {
+        await fs.remove(srtFile);
+      }
+    }
+  }
+  
+  if (videoConfig.formats.vtt) {
+    const vttFile = path.join(outputDir, `${baseFileName}.vtt`);
+    if (await fs.pathExists(vttFile)) {
+      await postProcessSubtitles(vttFile, videoConfig, subtitleLanguage);
+    }
+  }
+  
+  return cues;
+}
+
+/**
+ * Write the enabled formats from post-processed cues. Cues keep their language
+ * in WebVTT (<lang> spans), TTML/DFXP (xml:lang) and JSON. WTS, LRC and CSV
+ * need whisper.cpp's word timing and are not written.
+ * @param cues The post-processed cues
+ * @param outputDir The directory the output files belong in
+ * @param fileBase Filename of the outputs without extension, e.g. "name" or "name.fr"
+ * @param videoConfig Configuration of the video
+ * @param language Language of the cues, null if unknown or mixed
+ */
+async function writeCueOutputs(
+  cues: Cue[],
+  outputDir: string,
+  fileBase: string,
+  videoConfig: Config,
+  language: string | null
+): Promise<void> {
+  const document: SubtitleDocument = { format: 'vtt', header: 'WEBVTT', blocks: [], cues, lineEnding: '\n' };
+  const outputFile = (format: keyof Config['formats']) => path.join(outputDir, `${fileBase}${FORMAT_EXTENSIONS[format]}`);
+  
+  if (videoConfig.formats.srt) {
+    await fs.writeFile(outputFile('srt'), serializeSubtitles(document, 'srt'));
+  }
+  if (videoConfig.formats.vtt) {
+    await fs.writeFile(outputFile('vtt'), serializeSubtitles(document, 'vtt'));
+  }
+  if (videoConfig.formats.json) {
+    await fs.writeFile(outputFile('json'), writeJson(cues, language));
+  }
+  if (videoConfig.formats.text) {
+    await fs.writeFile(outputFile('text'), cues.map(cue => cue.text.replace(/\n/g, ' ')).join('\n') + '\n');
+  }
+  
+  await writeConvertedFormats(cues, outputDir, fileBase, videoConfig, language);
+}
+
+/**
+ * Post-process the stitched cues of a multi-language or speech-only
+ * transcription and write the enabled formats
+ * @param cues The cues on the timeline of the video, in order
+ * @param outputDir The directory the output files belong in
+ * @param baseFileName The video filename without extension
+ * @param videoConfig Configuration of the video
+ * @param language Language of the subtitles, null if mixed or unknown
+ * @returns The post-processed cues
+ */
+async function writeStitchedOutputs(
+  cues: Cue[],
+  outputDir: string,
+  baseFileName: string,
+  videoConfig: Config,
+  language: string | null
+): Promise<Cue[]> {
+  const { cues: processed, filtered } = processCues(cues, videoConfig, language);
+  logFilteredCues(filtered, baseFileName);
+  
+  if (videoConfig.formats.words || videoConfig.formats.lrc || videoConfig.formats.csv) {
+    console.log(`⚠️ WTS, LRC and CSV output are not written for multi-language, VAD or chunked transcripts`);
+  }
+  await writeCueOutputs(processed, outputDir, baseFileName, videoConfig, language);
+  console.log(`📝 Wrote stitched subtitles: ${baseFileName}`);
+  
+  return processed;
+}
+
+/**
+ * Translate the subtitles of a video into the translationTargets and write
+ * each as "name.<lang>.srt" etc. next to the original, which is kept
+ * @param cues The post-processed cues of the original subtitles
+ * @param outputDir The directory the output files belong in
+ * @param baseFileName The video filename without extension
+ * @param videoConfig Configuration of the video
+ * @param subtitleLanguage Language of the subtitles, 'auto' or null
+ * @returns The languages translated into
+ */
+async function writeTranslations(
+  cues: Cue[],
+  outputDir: string,
+  baseFileName: string,
+  videoConfig: Config,
+  subtitleLanguage: string | null
+): Promise<string[]> {
+  const translator = createTranslator(videoConfig);
+  const translated: string[] = [];
+  
+  for (const target of videoConfig.translationTargets) {
+    if (cues.every(cue => (cue.language || subtitleLanguage) === target)) {
+      console.log(`⏭️ Not translating ${baseFileName} into ${target}: the subtitles are in ${target} already`);
+      continue;
+    }
+    
+    const translation = await translateCues(cues, translator, subtitleLanguage, target, videoConfig.maxCharsPerLine);
+    await writeCueOutputs(translation, outputDir, `${baseFileName}.${target}`, videoConfig, target);
+    console.log(`🌐 Translated ${baseFileName} into ${LANGUAGE_NAMES[target] || target} (${translator.name})`);
+    translated.push(target);
+  }
+  
+  return translated;
+}
+
+/**
+ * Post-processes and renames everything generated for a video, then removes the
+ * intermediate WAV file if configured
+ * @param videoPath The original video file path
+ * @param audioPath The WAV file that was transcribed, null if the subtitles were extracted from the video
+ * @param outputDir The directory the output files belong in
+ * @param videoConfig Configuration of the video
+ * @param language The language the video was transcribed in, 'auto' or null
+ * @param cues The stitched cues of a multi-language or speech-only transcription, null for whisper.cpp's output files
+ * @returns Paths of the generated output files
+ */
+async function finalizeOutputs(
+  videoPath: string,
+  audioPath: string | null,
+  outputDir: string,
+  videoConfig: Config,
+  language: string | null,
+  cues: Cue[] | null = null
+): Promise<string[]> {
+  const baseFileName = path.basename(videoPath, path.extname(videoPath));
+  
+  if (audioPath && !cues) {
+    await collectWhisperOutputs(outputDir, baseFileName);
+  }
+  
+  // Translated subtitles are in English whatever the spoken language
+  const subtitleLanguage = videoConfig.translateToEnglish ? 'en' : language;
+  
+  const processed = cues
+    ? await writeStitchedOutputs(cues, outputDir, baseFileName, videoConfig, videoConfig.multiLanguage ? null : subtitleLanguage)
+    : await postProcessOutputs(outputDir, baseFileName, videoConfig, subtitleLanguage);
+  
+  // Translation errors fail the video, so it is retried rather than left without them
+  let translations: string[] = [];
+  if (videoConfig.translationTargets.length > 0) {
+    if (processed) {
+      translations = await writeTranslations(processed, outputDir, baseFileName, videoConfig, subtitleLanguage);
+    } else {
+      console.log(`⚠️ No subtitles to translate for ${baseFileName}`);
+    }
+  }
+  
+  // After processing, handle the output files to preserve video ID
+  await handleOutputFiles(videoPath, outputDir);
+  
+  // Only remove WAV files we extracted, never the cache
+  if (audioPath && videoConfig.removeWavFileAfterTranscription && !videoConfig.audioCache) {
+    await fs.remove(audioPath);
+  }
+  
+  const outputs: string[] = [];
+  for (const fileBase of [baseFileName, ...translations.map(target => `${baseFileName}.${target}`)]) {
+    for (const extension of OUTPUT_EXTENSIONS) {
+      const outputFile = path.join(outputDir, `${fileBase}${extension}`);
+      if (await fs.pathExists(outputFile)) {
+        outputs.push(outputFile);
+      }
+    }
+  }
+  
+  const embeddedVideo = await embedOutputs(videoPath, outputDir, baseFileName, videoConfig, subtitleLanguage);
+  if (embeddedVideo && embeddedVideo !== videoPath) {
+    outputs.push(embeddedVideo);
+  }
+  return outputs;
+}
+
+/**
+ * Add the generated subtitles to the video as soft subtitle tracks
+ * @returns The video with the subtitles, or null if nothing was embedded
+ */
+async function embedOutputs(
+  videoPath: string,
+  outputDir: string,
+  baseFileName: string,
+  videoConfig: Config,
+  language: string | null
+): Promise<string | null> {
+  const filename = path.basename(videoPath);
+  if (videoConfig.embedSubtitles === 'off') {
+    return null;
+  }
+  if (!canEmbedSubtitles(videoPath)) {
+    console.log(`⚠️ Not embedding subtitles in ${filename}: only MKV, WebM, MP4 and MOV files can hold them`);
+    return null;
+  }
+  
+  const tracks = await findSubtitleTracks(videoPath, outputDir, baseFileName, language);
+  if (tracks.length === 0) {
+    console.log(`⚠️ No SRT or WebVTT subtitles to embed in ${filename}`);
+    return null;
+  }
+  
+  const embeddedVideo = getEmbeddedVideoPath(videoPath, outputDir, videoConfig.embedSubtitles);
+  await embedSubtitles(videoPath, tracks, embeddedVideo);
+  console.log(`🎞️ Embedded ${tracks.length} subtitle track(s) in ${path.basename(embeddedVideo)}`);
+  return embeddedVideo;
+}
+
+/**
+ * Get the 16 kHz WAV of a video: from the audio cache when it is enabled, so
+ * every video is decoded once for identification and transcription and later
+ * runs reuse it, otherwise extracted into the output directory. Cached audio
+ * must be released with releaseCachedAudio when the video is done.
+ * @param videoPath The video
+ * @param videoConfig Configuration of the video
+ * @returns Path of the WAV file
+ */
+async function prepareAudio(videoPath: string, videoConfig: Config): Promise<string> {
+  if (!videoConfig.audioCache) {
+    // Extract the audio into the output directory so nothing is written beside the source
+    return extractAudio(videoPath, resolveOutputDir(videoPath, videoConfig));
+  }
+  
+  return getCachedAudio(videoPath, {
+    cacheDir: getStatePath('audioCacheDir'),
+    maxBytes: videoConfig.audioCacheMaxMb * 1024 * 1024,
+  });
+}
+
+/**
+ * Read the streams of a video when the configuration uses them
+ * @param videoPath The video
+ * @param videoConfig Configuration of the video
+ * @returns The probed video, or null if it is not needed or ffprobe failed
+ */
+async function probeVideo(videoPath: string, videoConfig: Config): Promise<MediaInfo | null> {
+  if (!videoConfig.useContainerLanguage && videoConfig.existingSubtitles === 'ignore' && !videoConfig.audioLanguageDetection) {
+    return null;
+  }
+  
+  try {
+    return await probeMedia(videoPath);
+  } catch (error) {
+    // Only the metadata is missing, the video can still be transcribed
+    console.log(`⚠️ Could not read the streams of ${path.basename(videoPath)}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Whether the language is detected at all, rather than the default language
+ * used or everything left to Whisper
+ */
+function detectsLanguage(videoConfig: Config): boolean {
+  return videoConfig.detectLanguage && videoConfig.languageDetectionMethod !== 'whisper-only';
+}
+
+/**
+ * The language tag of the video's tracks, if the configuration uses them
+ */
+function getContainerLanguage(media: MediaInfo | null, videoConfig: Config): LanguageHint | null {
+  return media && videoConfig.useContainerLanguage && detectsLanguage(videoConfig) ? getLanguageHint(media) : null;
+}
+
+/**
+ * Identify the language from samples of the audio when configured. It is not
+ * needed when the tracks are tagged with their language.
+ * @param videoPath The video
+ * @param videoConfig Configuration of the video
+ * @param media The probed video, null if it could not be probed
+ * @returns The identification, or null if it did not run or failed
+ */
+async function identifyVideoLanguage(
+  videoPath: string,
+  videoConfig: Config,
+  media: MediaInfo | null
+): Promise<LanguageIdentification | null> {
+  if (!videoConfig.audioLanguageDetection || !detectsLanguage(videoConfig) || getContainerLanguage(media, videoConfig)) {
+    return null;
+  }
+  
+  const filename = path.basename(videoPath);
+  let audioPath: string | null = null;
+  try {
+    // With the audio cache the windows are cut from the WAV the video is transcribed from
+    audioPath = videoConfig.audioCache ? await prepareAudio(videoPath, videoConfig) : null;
+    const identification = await identifyLanguage(audioPath || videoPath, videoConfig, media ? media.duration : undefined);
+    if (identification.language) {
+      console.log(`🎧 Language identified for ${filename}: ${describeIdentification(identification)}`);
+    } else {
+      console.log(`🎧 No language is likely enough for ${filename}: ${describeIdentification(identification)}, ` +
+        `below ${videoConfig.minLanguageConfidence}%`);
+    }
+    return identification;
+  } catch (error) {
+    console.log(`⚠️ Could not identify the language of ${filename}:`, error instanceof Error ? error.message : error);
+    return null;
+  } finally {
+    if (audioPath) {
+      releaseCachedAudio(audioPath);
+    }
+  }
+}
+
+/**
+ * Detect the language of a video using the configured detection method.
+ * Language tags of the audio and subtitle tracks come first, then the
+ * language identified from the audio, then the filename, unless Whisper
+ * detects everything.
+ * @param videoPath The video
+ * @param videoConfig Configuration of the video
+ * @param media The probed video, null if it could not be probed
+ * @param identification The language identified from the audio, null if it did not run
+ * @returns The language code, 'auto' or null
+ */
+async function resolveLanguage(
+  videoPath: string,
+  videoConfig: Config,
+  media: MediaInfo | null,
+  identification: LanguageIdentification | null
+): Promise<string | null> {
+  const filename = path.basename(videoPath);
+  
+  const hint = getContainerLanguage(media, videoConfig);
+  if (hint) {
+    console.log(`🔍 Language detected for ${filename}: ${hint.language} (${hint.source} language tag)`);
+    return hint.language;
+  }
+  
+  // Below the confidence threshold the filename decides
+  if (identification && identification.language && detectsLanguage(videoConfig)) {
+    return identification.language;
+  }
+  
+  switch (videoConfig.languageDetectionMethod) {
+    case 'manual':
+      return detectLanguage(filename, videoConfig);
+    case 'enhanced':
+      return detectLanguageEnhanced(filename, videoConfig);
+    case 'auto':
+      return detectLanguageAuto(filename, undefined, videoConfig);
+    case 'whisper-only':
+      return 'auto'; // Let Whisper handle everything
+    default:
+      return null;
+  }
+}
+
+/**
+ * Use a subtitle track the video already has instead of transcribing it, as
+ * configured by existingSubtitles: skip the video, or extract the track and
+ * post-process it like a transcript
+ * @param videoPath The video
+ * @param media The probed video, null if it could not be probed
+ * @param language The language the video is transcribed in, 'auto' or null
+ * @param videoConfig Configuration of the video
+ * @returns Where the subtitles came from and the files written, or null if the video must be transcribed
+ */
+async function useExistingSubtitles(
+  videoPath: string,
+  media: MediaInfo | null,
+  language: string | null,
+  videoConfig: Config
+): Promise<{ source: SubtitleSource; outputs: string[] } | null> {
+  const subtitleLanguage = videoConfig.translateToEnglish ? 'en' : language;
+  if (videoConfig.existingSubtitles === 'ignore' || !media || !subtitleLanguage || subtitleLanguage === 'auto') {
+    return null;
+  }
+  
+  const track = findExistingSubtitleTrack(media, subtitleLanguage);
+  if (!track) {
+    return null;
+  }
+  
+  const filename = path.basename(videoPath);
+  const languageName = LANGUAGE_NAMES[subtitleLanguage] || subtitleLanguage;
+  if (videoConfig.existingSubtitles === 'skip') {
+    console.log(`⏭️ Not transcribing ${filename}: it has ${languageName} subtitles (stream ${track.index})`);
+    return { source: 'skipped', outputs: [] };
+  }
+  if (!isTextSubtitleTrack(track)) {
+    console.log(`⚠️ The ${languageName} subtitles of ${filename} are images (${track.codecName}), transcribing instead`);
+    return null;
+  }
+  
+  // SRT is also the source of the converted formats; the other whisper.cpp formats are not written
+  const outputDir = resolveOutputDir(videoPath, videoConfig);
+  const baseFileName = path.basename(videoPath, path.extname(videoPath));
+  const extensions: string[] = [];
+  if (needsSrtOutput(videoConfig) || !videoConfig.formats.vtt) {
+    extensions.push('.srt');
+  }
+  if (videoConfig.formats.vtt) {
+    extensions.push('.vtt');
+  }
+  for (const extension of extensions) {
+    await extractSubtitleTrack(videoPath, track, path.join(outputDir, `${baseFileName}${extension}`));
+  }
+  console.log(`📤 Extracted the ${languageName} subtitles of ${filename} (stream ${track.index})`);
+  
+  const outputs = await finalizeOutputs(videoPath, null, outputDir, videoConfig, language);
+  return { source: 'extracted', outputs };
+}
+
+/**
+ * Read the cues of the SRT or WebVTT output as transcript segments
+ * @param outputs Paths of the files written for a video
+ */
+async function readOutputSegments(outputs: string[]): Promise<Segment[]> {
+  const subtitleFile = outputs.find(output => ['.srt', '.vtt'].includes(path.extname(output)));
+  if (!subtitleFile) {
+    return [];
+  }
+  
+  const format = path.extname(subtitleFile) === '.vtt' ? 'vtt' : 'srt';
+  const { cues } = parseSubtitles(await fs.readFile(subtitleFile, 'utf8'), format);
+  return cues.map(({ start, end, text }) => ({ start, end, text }));
+}
+
+/**
+ * The settings that decide whether existing outputs are still up to date
+ * @param language The language the video is transcribed in
+ * @param videoConfig Configuration of the video
+ */
+function getTranscriptionSettings(language: string | null, videoConfig: Config): TranscriptionSettings {
+  const formats = Object.entries(videoConfig.formats)
+    .filter(([, enabled]) => enabled)
+    .map(([format]) => format);
+  
+  return { modelName: videoConfig.modelName, language, formats, translations: videoConfig.translationTargets };
+}
+
+/**
+ * Build the whisper.cpp options for a video
+ * @param language The detected language, 'auto' or null
+ * @param videoConfig Configuration of the video
+ */
+function buildWhisperOptions(language: string | null, videoConfig: Config): WhisperOptions {
+  // Create whisper options with language if detected
+  const whisperOptions: WhisperOptions = {
+    outputInSrt: needsSrtOutput(videoConfig),
+    outputInVtt: videoConfig.formats.vtt,
+    outputInJson: videoConfig.formats.json,
+    outputInText: videoConfig.formats.text,
+    outputInWords: videoConfig.formats.words,
+    outputInLrc: videoConfig.formats.lrc,
+    outputInCsv: videoConfig.formats.csv,
+    // For Arabic text, we need to disable word timestamps to get proper phrase groups
+    wordTimestamps: videoConfig.wordTimestamps,
+    splitOnWord: videoConfig.splitOnWord,
+    translateToEnglish: videoConfig.translateToEnglish,
+  };
+  
+  // Add language parameter if detected (skip if 'auto' to let Whisper auto-detect)
+  if (language && language !== 'auto') {
+    whisperOptions.language = language;
+  }
+  
+  return whisperOptions;
+}
+
+/**
+ * Build whisper.cpp options that only write SRT, for transcripts that are read
+ * back as cues; the formats are then written from the stitched cues
+ * @param language The language to transcribe in, 'auto' or null
+ * @param videoConfig Configuration of the video
+ */
+function buildCueWhisperOptions(language: string | null, videoConfig: Config): WhisperOptions {
+  return {
+    ...buildWhisperOptions(language, videoConfig),
+    outputInSrt: true,
+    outputInVtt: false,
+    outputInJson: false,
+    outputInText: false,
+    outputInWords: false,
+    outputInLrc: false,
+    outputInCsv: false,
+  };
+}
+
+/**
+ * Cut the silence and music out of a video's audio when VAD is enabled
+ * @param videoPath The video
+ * @param audioPath The WAV of the video
+ * @param videoConfig Configuration of the video
+ * @returns The speech-only audio, or null if VAD is off or found no speech
+ */
+async function prepareSpeechAudio(videoPath: string, audioPath: string, videoConfig: Config): Promise<SpeechAudio | null> {
+  if (!videoConfig.vad) {
+    return null;
+  }
+  
+  const filename = path.basename(videoPath);
+  const { regions, durationMs } = await detectSpeech(audioPath, videoConfig);
+  if (regions.length === 0) {
+    console.log(`⚠️ No speech found in ${filename}, transcribing all of it`);
+    return null;
+  }
+  
+  // A file of its own, videos with the same audio share the cached WAV
+  const speechAudioPath = path.join(os.tmpdir(), `whispernode-speech-${process.pid}-${Date.now()}-${path.basename(videoPath, path.extname(videoPath))}.wav`);
+  const timeline = await writeSpeechAudio(audioPath, regions, speechAudioPath, durationMs);
+  const { speechMs } = summarizeSpeech(timeline);
+  console.log(`🔇 Speech is ${Math.round(speechMs / Math.max(durationMs, 1) * 100)}% of ${filename}: ` +
+    `transcribing ${regions.length} region(s), skipping ${Math.round((durationMs - speechMs) / 1000)}s`);
+  return { audioPath: speechAudioPath, timeline };
+}
+
+/**
+ * Remove speech-only audio and the files whisper.cpp wrote next to it
+ */
+async function removeSpeechAudio(speech: SpeechAudio | null): Promise<void> {
+  if (!speech) {
+    return;
+  }
+  
+  await fs.remove(speech.audioPath);
+  for (const extension of OUTPUT_EXTENSIONS) {
+    await fs.remove(`${speech.audioPath}${extension}`);
+  }
+}
+
+/**
+ * Split the audio of a long video into chunks when chunkLongMedia is enabled
+ * @param videoPath The video
+ * @param audioPath The audio to transcribe, speech-only if VAD cut it
+ * @param language The language the video is transcribed in, 'auto' or null
+ * @param videoConfig Configuration of the video
+ * @returns The chunks, or null if chunking is off or the audio fits in one chunk
+ */
+async function planVideoChunks(
+  videoPath: string,
+  audioPath: string,
+  language: string | null,
+  videoConfig: Config
+): Promise<ChunkPlan | null> {
+  if (!videoConfig.chunkLongMedia) {
+    return null;
+  }
+  
+  const chunks = await planChunks(audioPath, videoConfig);
+  if (chunks.length < 2) {
+    return null;
+  }
+  console.log(`🧩 Transcribing ${path.basename(videoPath)} in ${chunks.length} chunks of about ${videoConfig.chunkMinutes} minutes`);
+  
+  // Chunk transcripts are only reused for the same video, transcribed the same way
+  const { size, mtimeMs } = await fs.stat(videoPath);
+  const { modelName, translateToEnglish, multiLanguage } = videoConfig;
+  const baseFileName = path.basename(videoPath, path.extname(videoPath));
+  return {
+    chunks,
+    checkpointDir: path.join(resolveOutputDir(videoPath, videoConfig), `.${baseFileName}.chunks`),
+    checkpointKey: JSON.stringify({ size, mtimeMs, modelName, language, translateToEnglish, multiLanguage }),
+  };
+}
+
+// Runs whisper.cpp for a video, right away or in a pool
+type WhisperRunner = (run: WhisperRun, handlers?: WhisperRunHandlers) => Promise<string>;
+
+/**
+ * Run whisper.cpp right away, preparing the model first
+ * @param videoConfig Configuration of the video
+ */
+function createLocalRunner(videoConfig: Config): WhisperRunner {
+  return async (run, handlers) => {
+    await prepareWhisper(videoConfig.modelName, videoConfig.withCuda);
+    return runWhisper(run, handlers);
+  };
+}
+
+/**
+ * Run whisper.cpp in a pool, each run with the configured timeout
+ * @param pool The pool
+ * @param videoConfig Configuration of the video
+ */
+function createPoolRunner(pool: WhisperPool, videoConfig: Config): WhisperRunner {
+  return async (run, handlers = {}) => {
+    // Usually prepared before the pool started, unless a folder picks another model
+    await prepareWhisper(videoConfig.modelName, videoConfig.withCuda);
+    return pool.run(run, {
+      onSegment: handlers.onSegment,
+      onProgress: handlers.onProgress,
+      timeoutMs: videoConfig.jobTimeoutMinutes * 60_000,
+    });
+  };
+}
+
+/**
+ * Transcribe audio into cues with whisper.cpp, each language run separately
+ * for multi-language videos
+ * @param audioPath The WAV to transcribe
+ * @param language The language detected for the video, 'auto' or null
+ * @param videoConfig Configuration of the video
+ * @param whisper Runs whisper.cpp
+ * @returns The cues, timed from the start of the WAV
+ */
+async function transcribeAudioToCues(audioPath: string, language: string | null, videoConfig: Config, whisper: WhisperRunner): Promise<Cue[]> {
+  if (videoConfig.multiLanguage) {
+    return transcribeMultiLanguage(audioPath, language, videoConfig, whisper);
+  }
+  
+  await whisper({ audioPath, modelName: videoConfig.modelName, options: buildCueWhisperOptions(language, videoConfig) });
+  
+  const srtPath = `${audioPath}.srt`;
+  const { cues } = parseSubtitles(await fs.readFile(srtPath, 'utf8'), 'srt');
+  await fs.remove(srtPath);
+  return cues;
+}
+
+/**
+ * Transcribe a video into cues rather than whisper.cpp's output files: each
+ * language run separately for multi-language videos, only the speech when
+ * VAD found it, and chunk by chunk when the audio is long
+ * @param audioPath The WAV of the video
+ * @param speech The speech-only audio, null to transcribe all of the audio
+ * @param chunkPlan The chunks of the audio to transcribe, null to transcribe it at once
+ * @param language The language detected for the video, 'auto' or null
+ * @param videoConfig Configuration of the video
+ * @param whisper Runs whisper.cpp
+ * @returns The cues on the timeline of the video
+ */
+async function transcribeToCues(
+  audioPath: string,
+  speech: SpeechAudio | null,
+  chunkPlan: ChunkPlan | null,
+  language: string | null,
+  videoConfig: Config,
+  whisper: WhisperRunner
+): Promise<Cue[]> {
+  const sourcePath = speech ? speech.audioPath : audioPath;
+  
+  let cues: Cue[];
+  if (chunkPlan) {
+    const { chunks, checkpointDir, checkpointKey } = chunkPlan;
+    const chunkCues = await transcribeChunks(sourcePath, chunks, checkpointDir, checkpointKey, videoConfig,
+      chunkAudioPath => transcribeAudioToCues(chunkAudioPath, language, videoConfig, whisper));
+    cues = stitchChunks(chunks, chunkCues);
+  } else {
+    cues = await transcribeAudioToCues(sourcePath, language, videoConfig, whisper);
+  }
+  
+  return speech ? remapCues(cues, speech.timeline) : cues;
+}
+
+/**
+ * Transcribe audio that switches languages: find the language runs, then
+ * transcribe each run with its own language
+ * @param audioPath The extracted WAV
+ * @param language The language detected for the whole video, used where a run's language is unclear
+ * @param videoConfig Configuration of the video
+ * @param whisper Runs whisper.cpp
+ * @returns The stitched cues, each tagged with its language
+ */
+async function transcribeMultiLanguage(audioPath: string, language: string | null, videoConfig: Config, whisper: WhisperRunner): Promise<Cue[]> {
+  const { duration } = await probeMedia(audioPath);
+  if (!duration) {
+    throw new Error(`Cannot tell the length of ${path.basename(audioPath)}`);
+  }
+  
+  const runs = await detectLanguageRuns(audioPath, duration * 1000, videoConfig, language || 'auto');
+  console.log(`🗣️ Language runs: ${describeLanguageRuns(runs)}`);
+  
+  const cues = await transcribeLanguageRuns(audioPath, runs, async (runAudioPath, runLanguage) => {
+    await whisper({ audioPath: runAudioPath, modelName: videoConfig.modelName, options: buildCueWhisperOptions(runLanguage, videoConfig) });
+  });
+  
+  // Translated runs are all in English
+  return videoConfig.translateToEnglish ? cues.map(cue => ({ ...cue, language: 'en' })) : cues;
+}
+
+/**
+ * Record a finished video in the manifest and persist it
+ * Writes are chained so parallel workers never write the file concurrently
+ */
+function markProcessed(
+  videoPath: string,
+  language: string | null,
+  outputs: string[],
+  videoConfig: Config,
+  languageIdentification: LanguageIdentification | null
+): Promise<void> {
+  manifestWrite = manifestWrite
+    .then(async () => {
+      const settings = getTranscriptionSettings(language, videoConfig);
+      await recordProcessed(manifest, videoPath, settings, outputs, languageIdentification);
+      await saveManifest(getStatePath('manifestPath'), manifest);
+    })
+    .catch(error => {
+      console.error(`❌ Error updating manifest for ${path.basename(videoPath)}:`, error);
+    });
+  return manifestWrite;
+}
+
+/**
+ * Record a failed attempt. Retryable errors put the job back in the queue
+ * until the configured number of retries is used up.
+ * @param videoPath The video that failed
+ * @param error The error of the failed attempt
+ * @param videoConfig Configuration of the video, the global one if it could not be resolved
+ * @returns The delay before the next attempt, or null if the video failed for good
+ */
+async function recordFailure(videoPath: string, error: unknown, videoConfig: Config = config): Promise<number | null> {
+  const filename = path.basename(videoPath);
+  const job = findJob(jobStore, videoPath);
+  
+  if (isRetryableError(error) && job.attempts <= videoConfig.maxRetries) {
+    const delay = getRetryDelay(job.attempts, {
+      maxRetries: videoConfig.maxRetries,
+      baseDelayMs: videoConfig.retryBaseDelayMs,
+      maxDelayMs: videoConfig.retryMaxDelayMs,
+    });
+    console.log(`🔁 Retrying ${filename} in ${Math.round(delay / 1000)}s (attempt ${job.attempts + 1}/${videoConfig.maxRetries + 1})`);
+    await retryJob(jobStore, videoPath, error);
+    return delay;
+  }
+  
+  if (!isRetryableError(error)) {
+    console.log(`⛔ Not retrying ${filename}: permanent error`);
+  }
+  await finishJob(jobStore, videoPath, error);
+  
+  processedCount++;
+  console.log(`⚠️ Progress: ${processedCount}/${totalVideos}, ${Math.round((processedCount/totalVideos)*100)}% complete`);
+  return null;
+}
+
+/**
+ * Transcribe one video and write its output files
+ * Does not touch the manifest or the job queue, see processVideo for batches
+ * @param videoPath Absolute path to the video
+ * @param videoConfig Configuration of the video
+ * @param onStage Called when a step of the transcription starts
+ * @param pool Pool to run whisper.cpp in, with the configured timeout; run right away without a timeout if unset
+ */
+export async function transcribeVideo(
+  videoPath: string,
+  videoConfig: Config,
+  onStage?: (stage: TranscriptionStage) => void,
+  pool?: WhisperPool
+): Promise<TranscriptionResult> {
+  // Detect language using the video's metadata, its audio and the configured method
+  const media = await probeVideo(videoPath, videoConfig);
+  const languageIdentification = await identifyVideoLanguage(videoPath, videoConfig, media);
+  const language = await resolveLanguage(videoPath, videoConfig, media, languageIdentification);
+  
+  if (language && language !== 'auto') {
+    console.log(`🌐 Using language: ${language} (method: ${videoConfig.languageDetectionMethod})`);
+  } else {
+    console.log(`🤖 Using Whisper auto-detection (method: ${videoConfig.languageDetectionMethod})`);
+  }
+  
+  const existing = await useExistingSubtitles(videoPath, media, language, videoConfig);
+  if (existing) {
+    const segments = await readOutputSegments(existing.outputs);
+    return { videoPath, language, segments, outputs: existing.outputs, source: existing.source, languageIdentification, speech: null };
+  }
+  
+  const whisperOptions = buildWhisperOptions(language, videoConfig);
+  const whisper = pool ? createPoolRunner(pool, videoConfig) : createLocalRunner(videoConfig);
+  
+  onStage?.('extracting-audio');
+  const outputDir = resolveOutputDir(videoPath, videoConfig);
+  const audioPath = await prepareAudio(videoPath, videoConfig);
+  let speech: SpeechAudio | null = null;
+  
+  try {
+    speech = await prepareSpeechAudio(videoPath, audioPath, videoConfig);
+    const speechSummary = speech ? summarizeSpeech(speech.timeline) : null;
+    const chunkPlan = await planVideoChunks(videoPath, speech ? speech.audioPath : audioPath, language, videoConfig);
+    
+    onStage?.('transcribing');
+    if (videoConfig.multiLanguage || speech || chunkPlan) {
+      const cues = await transcribeToCues(audioPath, speech, chunkPlan, language, videoConfig, whisper);
+      
+      onStage?.('finalizing');
+      const outputs = await finalizeOutputs(videoPath, audioPath, outputDir, videoConfig, language, cues);
+      if (chunkPlan) {
+        await fs.remove(chunkPlan.checkpointDir);
+      }
+      const segments = cues.map(({ start, end, text, language: cueLanguage }) => ({ start, end, text, language: cueLanguage }));
+      return { videoPath, language, segments, outputs, source: 'transcribed', languageIdentification, speech: speechSummary };
+    }
+    
+    const filename = path.basename(videoPath);
+    let reportedQuarter = 0;
+    const outputPrefix = getWhisperOutputPrefix(outputDir, path.basename(videoPath, path.extname(videoPath)));
+    const transcript = await whisper({ audioPath, outputPrefix, modelName: videoConfig.modelName, options: whisperOptions }, {
+      onProgress: percent => {
+        const quarter = Math.floor(percent / 25);
+        if (quarter > reportedQuarter && quarter < 4) {
+          reportedQuarter = quarter;
+          console.log(`⏳ ${filename}: ${quarter * 25}% transcribed`);
+        }
+      },
+    });
+    
+    onStage?.('finalizing');
+    const outputs = await finalizeOutputs(videoPath, audioPath, outputDir, videoConfig, language);
+    const segments = parseTranscript(transcript || '');
+    return { videoPath, language, segments, outputs, source: 'transcribed', languageIdentification, speech: null };
+  } finally {
+    await removeSpeechAudio(speech);
+    releaseCachedAudio(audioPath);
+  }
+}
+
+// Process a single video file
+async function processVideo(videoPath: string, pool: WhisperPool): Promise<void> {
+  await startJob(jobStore, videoPath);
+  let videoConfig: Config | undefined;
+  
+  try {
+    const filename = path.basename(videoPath);
+    console.log(`Processing: ${filename}`);
+    
+    // Apply per-folder overrides before transcribing
+    videoConfig = await resolveVideoConfig(videoPath);
+    const { language, outputs, languageIdentification, speech } = await transcribeVideo(videoPath, videoConfig, undefined, pool);
+    
+    await markProcessed(videoPath, language, outputs, videoConfig, languageIdentification);
+    if (speech) {
+      recordSpeech(jobStore, videoPath, speech);
+    }
+    await finishJob(jobStore, videoPath);
+    
+    // Increment processed count and show progress
+    processedCount++;
+    console.log(`✅ Completed: ${filename} (${processedCount}/${totalVideos}, ${Math.round((processedCount/totalVideos)*100)}% complete)`);
+  } catch (error) {
+    console.error(`❌ Error processing ${path.basename(videoPath)}:`, error);
+    
+    const retryDelay = await recordFailure(videoPath, error, videoConfig);
+    if (retryDelay !== null) {
+      await sleep(retryDelay);
+      // A stopped batch leaves the retry pending for the next run
+      if (!stopRequested) {
+        await processVideo(videoPath, pool);
+      }
+    }
+  }
+}
+
+// Process multiple videos in parallel, with up to concurrency whisper.cpp processes at once
+async function processVideosInParallel(videoPaths: string[], concurrency: number, pool: WhisperPool): Promise<void> {
+  console.log(`Setting up parallel processing with ${concurrency} concurrent processes...`);
+  
+  // Simple queue management
+  const queue = [...videoPaths];
+  // Videos being processed, from detecting the language to writing the outputs
+  let activeVideos = 0;
+  // Videos waiting for their retry delay
+  const retryTimers: Set<NodeJS.Timeout> = new Set();
+  
+  // Configuration of the videos being processed, once their overrides are applied
+  const videoConfigs = new Map<string, Config>();
+  
+  return new Promise<void>(resolve => {
+    wakeBatch = () => processNext();
+    
+    function processNext() {
+      const idle = activeVideos === 0;
+      if (idle && (stopRequested || (queue.length === 0 && retryTimers.size === 0))) {
+        // Retries waiting for their delay stay pending in the job store
+        for (const timer of retryTimers) {
+          clearTimeout(timer);
+        }
+        retryTimers.clear();
+        wakeBatch = () => {};
+        
+        // All done
+        resolve();
+        return;
+      }
+      
+      // Start new videos if we have capacity and items in queue
+      while (!stopRequested && activeVideos < concurrency && queue.length > 0) {
+        const videoPath = queue.shift()!;
+        activeVideos++;
+        startVideo(videoPath)
+          .catch(async error => {
+            console.error(`❌ Error processing ${path.basename(videoPath)}:`, error instanceof Error ? error.message : error);
+            await handleFailure(videoPath, error);
+          })
+          .finally(() => {
+            videoConfigs.delete(videoPath);
+            activeVideos--;
+            processNext();
+          });
+      }
+    }
+    
+    // Record a failed attempt and re-queue the video after its backoff delay if it is retried
+    async function handleFailure(videoPath: string, error: unknown) {
+      const retryDelay = await recordFailure(videoPath, error, videoConfigs.get(videoPath));
+      if (retryDelay !== null) {
+        const timer = setTimeout(() => {
+          retryTimers.delete(timer);
+          queue.push(videoPath);
+          processNext();
+        }, retryDelay);
+        retryTimers.add(timer);
+      }
+    }
+    
+    async function startVideo(videoPath: string) {
+      const filename = path.basename(videoPath);
+      console.log(`Starting: ${filename}`);
+      await startJob(jobStore, videoPath);
+      
+      // Apply per-folder overrides; whisper.cpp runs in the pool
+      const videoConfig = await resolveVideoConfig(videoPath);
+      videoConfigs.set(videoPath, videoConfig);
+      const { language, outputs, languageIdentification, speech } = await transcribeVideo(videoPath, videoConfig, undefined, pool);
+      
+      await markProcessed(videoPath, language, outputs, videoConfig, languageIdentification);
+      if (speech) {
+        recordSpeech(jobStore, videoPath, speech);
+      }
+      await finishJob(jobStore, videoPath);
+      
+      processedCount++;
+      console.log(`✅ Completed: ${filename} (${processedCount}/${totalVideos}, ${Math.round((processedCount/totalVideos)*100)}% complete)`);
+    }
+    
+    // Start the first videos
+    processNext();
+  });
+}
+
+/**
+ * Find the videos to work on
+ * @param inputs Video files or directories to scan; videosDir if empty
+ * @returns Absolute paths of the videos found
+ */
+export async function findVideos(inputs: string[]): Promise<string[]> {
+  const scanOptions = {
+    include: config.includePatterns,
+    exclude: config.excludePatterns,
+    maxDepth: config.maxScanDepth,
+    followSymlinks: config.followSymlinks,
+  };
+  const videoPaths: string[] = [];
+  
+  for (const input of inputs.length > 0 ? inputs : [config.videosDir]) {
+    const inputPath = path.resolve(input);
+    const stats = await fs.stat(inputPath);
+    
+    if (stats.isDirectory()) {
+      // Find all video files in the directory and its subfolders
+      // Cached WAV files are not videos, even when the cache is inside the videos directory
+      const audioCacheDir = getStatePath('audioCacheDir') + path.sep;
+      videoPaths.push(...(await scanVideos(inputPath, scanOptions))
+        .filter(videoPath => !isGeneratedVideo(videoPath) && !videoPath.startsWith(audioCacheDir)));
+    } else {
+      videoPaths.push(inputPath);
+    }
+  }
+  
+  return Array.from(new Set(videoPaths));
+}
+
+/**
+ * Split videos into those that need processing and those whose outputs are up to date
+ * @param videoPaths The videos found by findVideos
+ * @param force Treat every video as outdated
+ */
+export async function planBatch(videoPaths: string[], force: boolean): Promise<BatchPlan> {
+  manifest = await loadManifest(getStatePath('manifestPath'));
+  const plan: BatchPlan = { outdated: [], upToDate: [] };
+  
+  for (const videoPath of videoPaths) {
+    const videoConfig = await resolveVideoConfig(videoPath);
+    // Reuse the language identified by the last run instead of identifying it again;
+    // a changed video is outdated anyway
+    const entry = manifest.entries[path.resolve(videoPath)];
+    const identification = entry && entry.languageIdentification || null;
+    const language = await resolveLanguage(videoPath, videoConfig, await probeVideo(videoPath, videoConfig), identification);
+    if (!force && await isUpToDate(manifest, videoPath, getTranscriptionSettings(language, videoConfig))) {
+      plan.upToDate.push(videoPath);
+    } else {
+      plan.outdated.push(videoPath);
+    }
+  }
+  
+  return plan;
+}
+
+/**
+ * Transcribe a batch of videos, resuming the previous run if it was interrupted
+ * @param options Inputs and processing flags
+ * @returns The run report, or null if there was nothing to do
+ */
+export async function runBatch(options: BatchOptions): Promise<RunReport | null> {
+  const startedAt = new Date();
+  stopRequested = false;
+  
+  initializeEnvironment(config);
+  await ensureDirectories();
+  
+  const scannedPaths = await findVideos(options.inputs);
+  
+  if (scannedPaths.length === 0) {
+    console.log('No video files found in the videos directory.');
+    return null;
+  }
+  
+  // Skip videos whose outputs are up to date, unless --force is given
+  const plan = await planBatch(scannedPaths, options.force);
+  for (const videoPath of plan.upToDate) {
+    console.log(`⏭️ Up to date: ${path.relative(config.videosDir, videoPath)}`);
+  }
+  
+  // Resume the previous run if it stopped before finishing, otherwise start a new batch
+  jobStore = await loadJobStore(getStatePath('jobStorePath'));
+  if (hasUnfinishedJobs(jobStore)) {
+    console.log(`🔁 Resuming previous run: ${getJobs(jobStore, 'done').length} done, ` +
+      `${getJobs(jobStore, 'failed').length} failed, ${getJobs(jobStore, 'pending').length} pending`);
+  } else {
+    resetJobs(jobStore);
+  }
+  addJobs(jobStore, plan.outdated);
+  await saveJobStore(jobStore);
+  
+  const videoPaths = getJobs(jobStore, 'pending').map(job => job.videoPath);
+  
+  if (videoPaths.length === 0) {
+    console.log(`All ${scannedPaths.length} videos are up to date. Use --force to re-process them.`);
+    return null;
+  }
+  
+  // Set total videos count for progress tracking
+  processedCount = 0;
+  totalVideos = videoPaths.length;
+  console.log(`Found ${totalVideos} video files to process (${plan.upToDate.length} up to date). Starting processing...`);
+  
+  // Check if we should use AMD GPU optimization or parallel processing
+  const useParallel = config.maxConcurrentProcesses > 1 || options.parallel;
+  
+  // The model is downloaded and whisper.cpp built once, before the first video;
+  // if it fails, each video tries again and fails on its own
+  await prepareWhisper(config.modelName, config.withCuda).catch(error => {
+    console.error(`❌ Could not prepare the ${config.modelName} model:`, error instanceof Error ? error.message : error);
+  });
+  
+  // Every whisper.cpp run of the batch goes through the pool, which applies the timeout
+  const pool = createWhisperPool(useParallel ? config.maxConcurrentProcesses : 1);
+  try {
+    if (useParallel) {
+      console.log(`Using parallel processing with ${config.maxConcurrentProcesses} concurrent processes`);
+      await processVideosInParallel(videoPaths, config.maxConcurrentProcesses, pool);
+    } else {
+      // Process sequentially for testing or debugging
+      console.log(`Using sequential processing (one video at a time)`);
+      for (const videoPath of videoPaths) {
+        if (stopRequested) break;
+        await processVideo(videoPath, pool);
+      }
+    }
+  } finally {
+    await pool.close();
+  }
+  
+  // Summarise the run
+  const report = buildRunReport(jobStore, startedAt);
+  printRunReport(report);
+  await writeRunReport(report, getStatePath('reportPath'));
+  
+  const pending = getJobs(jobStore, 'pending').length;
+  if (pending > 0) {
+    console.log(`⏸️ Stopped with ${pending} video(s) pending, they are resumed by the next run.`);
+  }
+  
+  if (report.failed > 0) {
+    console.log(`❌ ${report.failed} of ${report.total} videos failed.`);
+  } else if (pending === 0) {
+    console.log('All videos processed successfully!');
+  }
+  
+  return report;
+}
@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Cue } from './subtitles';
+import { SubtitleLimits, adjustCueTiming, mergeCues, splitLongCues } from './postprocess';
+
+const limits: SubtitleLimits = {
+  maxCharsPerLine: 20,
+  maxLinesPerCue: 2,
+  maxCueDurationMs: 7000,
+  minCueGapMs: 100,
+  maxCharsPerSecond: 20,
+};
+
+function cue(start: number, end: number, text: string): Cue {
+  return { id: null, start, end, text, settings: '', notes: [] };
+}
+
+test('merges cues that continue a sentence', () => {
+  const merged = mergeCues([
+    cue(0, 1000, 'We started'),
+    cue(1200, 2000, 'the engine.'),
+    cue(2100, 3000, 'Then we left'),
+  ], limits, 'en');
+  assert.deepEqual(merged, [
+    cue(0, 2000, 'We started\nthe engine.'),
+    cue(2100, 3000, 'Then we left'),
+  ]);
+});
+
+test('does not merge across a pause, a change of language or the layout limits', () => {
+  const arabic = { ...cue(1200, 2000, 'مرحبا'), language: 'ar' };
+  const cues = [
+    cue(0, 1000, 'one'),
+    arabic,
+    cue(3500, 4000, 'two'),
+    cue(4000, 5000, 'and a much longer line of text that will never fit'),
+  ];
+  assert.deepEqual(mergeCues(cues, limits, 'en').map(({ start, end }) => [start, end]), [
+    [0, 1000],
+    [1200, 2000],
+    [3500, 4000],
+    [4000, 5000],
+  ]);
+});
+
+test('splits text that does not fit into cues timed by its width', () => {
+  const long = { ...cue(0, 3400, 'We started the engine and drove off'), id: '7', notes: ['NOTE last'] };
+  assert.deepEqual(splitLongCues([long], { ...limits, maxLinesPerCue: 1 }, 'en'), [
+    { ...cue(0, 1400, 'We started the'), id: '7' },
+    { ...cue(1400, 3400, 'engine and drove off'), notes: ['NOTE last'] },
+  ]);
+});
+
+test('wraps cues that fit without splitting them', () => {
+  assert.deepEqual(splitLongCues([cue(0, 3400, 'We started the engine')], limits, 'en'), [
+    cue(0, 3400, 'We started\nthe engine'),
+  ]);
+});
+
+test('adjusts cue end times to the reading speed, the maximum duration and the gap', () => {
+  const adjusted = adjustCueTiming([
+    cue(0, 100, 'Hello there everyone'), // Extended to one second of reading time
+    cue(3000, 12_000, 'Long'), // Shortened to the maximum, then to the gap before the next cue
+    cue(10_050, 10_060, 'Quick reply here'),
+    cue(20_000, 20_500, 'Hi'),
+    cue(20_520, 21_000, 'there'),
+  ], limits);
+  assert.deepEqual(adjusted.map(({ start, end }) => [start, end]), [
+    [0, 1000],
+    [3000, 9950],
+    [10_050, 10_850],
+    [20_000, 20_420],
+    [20_520, 21_000],
+  ]);
+});
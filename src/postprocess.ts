@@ -0,0 +1,330 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { config, Config } from './config';
+import { Cue, SubtitleFormat, parseSubtitles, serializeSubtitles, detectSubtitleFormat } from './subtitles';
+import { TextUnit, segmentText, textWidth, joinText, joinUnits } from './segmentation';
+import { FilteredCue, HallucinationFilterOptions, filterHallucinations, describeFilteredCue } from './hallucinations';
+
+// Limits for the layout and timing of cues
+export type SubtitleLimits = Pick<Config, 'maxCharsPerLine' | 'maxLinesPerCue' | 'maxCueDurationMs' | 'minCueGapMs' | 'maxCharsPerSecond'>;
+
+// Settings that control subtitle post-processing
+export type PostProcessOptions = SubtitleLimits &
+  HallucinationFilterOptions &
+  Pick<Config, 'deduplicateSubtitles' | 'maxDuplicates' | 'filterHallucinations'>;
+
+// Cues further apart than this are never merged, so text is not shown during a pause
+const MAX_MERGE_GAP_MS = 1000;
+
+// Text that ends a sentence; the cue after it starts a new one
+const SENTENCE_END = /[.!?…。！？؟۔।॥။።]["'»”)」』]*$/;
+
+// Punctuation that makes a good line break
+const CLAUSE_END = /[,;:.!?…،؛؟۔、。，；：！？।॥။၊።፣]["'»”)」』]*$/;
+
+/**
+ * Post-processes subtitle files: removes hallucinated cues, merges short cues,
+ * splits long ones, re-wraps the text and fixes the timing
+ * @param filePath Path to the subtitle file
+ * @param videoConfig Configuration of the video the file belongs to
+ * @param language Language of the subtitles, null if unknown
+ * @returns The cues the hallucination filter removed or shortened
+ */
+export async function postProcessSubtitles(
+  filePath: string,
+  videoConfig: Config = config,
+  language: string | null = null
+): Promise<FilteredCue[]> {
+  // Only process certain subtitle formats
+  const ext = path.extname(filePath).toLowerCase();
+  if (!['.srt', '.vtt'].includes(ext)) {
+    return [];
+  }
+
+  try {
+    // Read the subtitle file
+    const content = await fs.readFile(filePath, 'utf8');
+    const document = parseSubtitles(content, ext === '.srt' ? 'srt' : 'vtt');
+    const { cues, filtered } = processCues(document.cues, videoConfig, language);
+    document.cues = cues;
+
+    // Write processed content back to file
+    await fs.writeFile(filePath, serializeSubtitles(document), 'utf8');
+    console.log(`📝 Post-processed subtitle file: ${path.basename(filePath)}`);
+
+    logFilteredCues(filtered, path.basename(filePath));
+    return filtered;
+  } catch (error) {
+    console.error(`❌ Error post-processing subtitle file: ${filePath}`, error);
+    return [];
+  }
+}
+
+/**
+ * Log the cues the hallucination filter removed or shortened
+ * @param filtered The filtered cues
+ * @param name Name of the subtitles they were removed from
+ */
+export function logFilteredCues(filtered: FilteredCue[], name: string): void {
+  if (filtered.length > 0) {
+    console.log(`🧹 Filtered ${filtered.length} hallucinated cue(s) from ${name}:`);
+    filtered.forEach(entry => console.log(`   ${describeFilteredCue(entry)}`));
+  }
+}
+
+/**
+ * Post-process subtitle content: remove hallucinated cues and repeated lines,
+ * then merge, split, re-wrap and re-time the cues
+ * Works on the file content only, nothing is read or written
+ * @param content The SRT or WebVTT content
+ * @param format The subtitle format of the content
+ * @param options Layout, timing and deduplication settings
+ * @param language Language of the subtitles, null if unknown
+ * @returns The processed content
+ */
+export function processSubtitleContent(
+  content: string,
+  format: SubtitleFormat,
+  options: PostProcessOptions = config,
+  language: string | null = null
+): string {
+  const document = parseSubtitles(content, format);
+  document.cues = processCues(document.cues, options, language).cues;
+  return serializeSubtitles(document);
+}
+
+/**
+ * Run the post-processing steps on parsed cues: the hallucination filter,
+ * deduplication, merging and splitting, line wrapping and timing
+ * @param cues The cues in order
+ * @param options Layout, timing, filter and deduplication settings
+ * @param language Language of the cues, null if unknown
+ * @returns The processed cues, and the cues the hallucination filter removed or shortened
+ */
+export function processCues(
+  cues: Cue[],
+  options: PostProcessOptions,
+  language: string | null = null
+): { cues: Cue[]; filtered: FilteredCue[] } {
+  let filtered: FilteredCue[] = [];
+
+  // Remove made-up cues and duplicates first, merging would hide them inside longer cues
+  if (options.filterHallucinations) {
+    ({ cues, filtered } = filterHallucinations(cues, options, language));
+  }
+  if (options.deduplicateSubtitles) {
+    cues = deduplicateCues(cues, options.maxDuplicates);
+  }
+
+  cues = mergeCues(splitLongCues(cues, options, language), options, language);
+  return { cues: adjustCueTiming(cues, options), filtered };
+}
+
+function flattenText(text: string): string {
+  return text.split(/\s+/).filter(Boolean).join(' ');
+}
+
+/**
+ * Break text into lines no wider than maxCharsPerLine (see textWidth: wide CJK
+ * characters count twice). Lines break between words, also in scripts without
+ * spaces. Text that fits on two lines is split where both lines are about the
+ * same width, preferably after punctuation. Words wider than a line get a line
+ * of their own.
+ * @param text The text to wrap
+ * @param maxCharsPerLine Maximum width per line
+ * @param language Language of the text, null if unknown
+ * @returns The lines
+ */
+export function wrapText(text: string, maxCharsPerLine: number, language: string | null = null): string[] {
+  const units = segmentText(flattenText(text), language);
+  const lines: TextUnit[][] = [];
+  let line: TextUnit[] = [];
+
+  for (const unit of units) {
+    if (line.length > 0 && textWidth(joinUnits([...line, unit])) > maxCharsPerLine) {
+      lines.push(line);
+      line = [unit];
+    } else {
+      line.push(unit);
+    }
+  }
+  if (line.length > 0) lines.push(line);
+
+  if (lines.length !== 2) {
+    return lines.map(joinUnits);
+  }
+
+  // Balance the two lines
+  let best = lines.map(joinUnits);
+  let bestScore = Infinity;
+  for (let i = 1; i < units.length; i++) {
+    const first = joinUnits(units.slice(0, i));
+    const second = joinUnits(units.slice(i));
+    const firstWidth = textWidth(first);
+    const secondWidth = textWidth(second);
+    if (firstWidth > maxCharsPerLine || secondWidth > maxCharsPerLine) continue;
+
+    const score = Math.abs(firstWidth - secondWidth) - (CLAUSE_END.test(first) ? maxCharsPerLine / 4 : 0);
+    if (score < bestScore) {
+      best = [first, second];
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function fitsCue(text: string, limits: SubtitleLimits, language: string | null): boolean {
+  return wrapText(text, limits.maxCharsPerLine, language).length <= limits.maxLinesPerCue;
+}
+
+/**
+ * Split cues whose text does not fit in maxLinesPerCue lines into several cues.
+ * The time is divided in proportion to the width of each part.
+ * @param cues The cues in order
+ * @param limits Layout limits
+ * @param language Language of the cues, null if unknown; cues with a language of their own use it
+ */
+export function splitLongCues(cues: Cue[], limits: SubtitleLimits, language: string | null = null): Cue[] {
+  const result: Cue[] = [];
+
+  for (const cue of cues) {
+    const cueLanguage = cue.language || language;
+    const lines = wrapText(cue.text, limits.maxCharsPerLine, cueLanguage);
+    if (lines.length <= limits.maxLinesPerCue) {
+      result.push({ ...cue, text: lines.join('\n') });
+      continue;
+    }
+
+    const parts: string[] = [];
+    for (let i = 0; i < lines.length; i += limits.maxLinesPerCue) {
+      parts.push(lines.slice(i, i + limits.maxLinesPerCue).reduce(joinText));
+    }
+
+    const totalWidth = parts.reduce((sum, part) => sum + textWidth(part), 0);
+    let start = cue.start;
+    parts.forEach((part, index) => {
+      const last = index === parts.length - 1;
+      const end = last ? cue.end : start + Math.round((cue.end - cue.start) * textWidth(part) / totalWidth);
+      result.push({
+        ...cue,
+        id: index === 0 ? cue.id : null,
+        start,
+        end,
+        text: wrapText(part, limits.maxCharsPerLine, cueLanguage).join('\n'),
+        notes: last ? cue.notes : [],
+      });
+      start = end;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Merge consecutive cues while the result still fits the layout limits and
+ * maxCueDurationMs. A merged cue starts with its first cue and ends with its last.
+ * Cues are not merged across a sentence end, a pause or a change of language.
+ * @param cues The cues in order
+ * @param limits Layout and timing limits
+ * @param language Language of the cues, null if unknown; cues with a language of their own use it
+ */
+export function mergeCues(cues: Cue[], limits: SubtitleLimits, language: string | null = null): Cue[] {
+  const result: Cue[] = [];
+
+  for (const cue of cues) {
+    const previous = result[result.length - 1];
+    const combinedText = previous ? joinText(flattenText(previous.text), flattenText(cue.text)) : '';
+    const cueLanguage = cue.language || language;
+
+    if (
+      previous &&
+      previous.language === cue.language &&
+      cue.start - previous.end <= MAX_MERGE_GAP_MS &&
+      !SENTENCE_END.test(flattenText(previous.text)) &&
+      Math.max(previous.end, cue.end) - previous.start <= limits.maxCueDurationMs &&
+      fitsCue(combinedText, limits, cueLanguage)
+    ) {
+      result[result.length - 1] = {
+        ...previous,
+        end: Math.max(previous.end, cue.end),
+        text: wrapText(combinedText, limits.maxCharsPerLine, cueLanguage).join('\n'),
+        notes: [...previous.notes, ...cue.notes],
+      };
+    } else {
+      result.push({ ...cue, text: wrapText(cue.text, limits.maxCharsPerLine, cueLanguage).join('\n') });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fix cue end times: extend cues that are too fast to read (maxCharsPerSecond)
+ * into the following pause, shorten cues longer than maxCueDurationMs, and
+ * keep at least minCueGapMs between cues
+ * @param cues The cues in order
+ * @param limits Timing limits
+ */
+export function adjustCueTiming(cues: Cue[], limits: SubtitleLimits): Cue[] {
+  return cues.map((cue, index) => {
+    const next = cues[index + 1];
+    let end = cue.end;
+
+    const readingTime = Math.ceil(textWidth(flattenText(cue.text)) / limits.maxCharsPerSecond * 1000);
+    if (end - cue.start < readingTime) {
+      end = cue.start + readingTime;
+    }
+
+    end = Math.min(end, cue.start + limits.maxCueDurationMs);
+
+    if (next) {
+      const latestEnd = next.start - limits.minCueGapMs;
+      if (end > latestEnd) {
+        // Never extend into the gap, and never let a cue overlap the next one
+        end = latestEnd > cue.start ? latestEnd : Math.min(cue.end, next.start);
+      }
+    }
+
+    return { ...cue, end };
+  });
+}
+
+/**
+ * Drop consecutive cues repeating the same text
+ * @param cues The cues in order
+ * @param maxDuplicates Maximum number of allowed consecutive duplicates
+ */
+export function deduplicateCues(cues: Cue[], maxDuplicates: number = 1): Cue[] {
+  const result: Cue[] = [];
+  let lastTextKey: string | null = null;
+  let count = 0;
+
+  for (const cue of cues) {
+    // Create a key for comparing texts (normalize case and whitespace)
+    const textKey = cue.text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+    if (textKey === lastTextKey) {
+      // Skip exact duplicates beyond the allowed maximum
+      if (count >= maxDuplicates) continue;
+      count++;
+    } else {
+      lastTextKey = textKey;
+      count = 1;
+    }
+
+    result.push(cue);
+  }
+
+  return result;
+}
+
+/**
+ * Deduplicate repeated subtitle lines
+ * @param content The SRT or WebVTT content to deduplicate
+ * @param maxDuplicates Maximum number of allowed consecutive duplicates
+ */
+export function deduplicateSubtitles(content: string, maxDuplicates: number = 1): string {
+  const document = parseSubtitles(content, detectSubtitleFormat(content));
+  document.cues = deduplicateCues(document.cues, maxDuplicates);
+  return serializeSubtitles(document);
+}
@@ -0,0 +1,113 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ISO_639_2_CODES, LANGUAGE_CODES } from './config';
+
+const execFileAsync = promisify(execFile);
+
+// A stream of a media file, as reported by ffprobe
+export interface MediaStream {
+  index: number;
+  codecType: string;       // 'video', 'audio', 'subtitle', 'data' or 'attachment'
+  codecName: string | null;
+  language: string | null; // ISO 639-2 language tag, e.g. 'eng'
+  title: string | null;
+  forced: boolean;         // Subtitles shown only for foreign or on-screen text
+}
+
+export interface MediaInfo {
+  formatName: string;           // ffprobe format names, e.g. 'matroska,webm'
+  duration: number | null;      // Seconds, null if unknown
+  tags: Record<string, string>; // Container metadata
+  streams: MediaStream[];
+}
+
+/**
+ * Read the container format, metadata and streams of a media file with ffprobe
+ * @param filePath The media file
+ */
+export async function probeMedia(filePath: string): Promise<MediaInfo> {
+  const { stdout } = await execFileAsync('ffprobe', [
+    '-v', 'error',
+    '-show_entries', 'format=format_name,duration:format_tags:stream=index,codec_type,codec_name:stream_tags=language,title:stream_disposition=forced',
+    '-of', 'json',
+    filePath,
+  ]);
+
+  const data = JSON.parse(stdout);
+  const streams: any[] = data.streams || [];
+  return {
+    formatName: (data.format && data.format.format_name) || '',
+    duration: data.format && data.format.duration ? parseFloat(data.format.duration) : null,
+    tags: (data.format && data.format.tags) || {},
+    streams: streams.map(stream => ({
+      index: stream.index,
+      codecType: stream.codec_type,
+      codecName: stream.codec_name || null,
+      language: (stream.tags && stream.tags.language) || null,
+      title: (stream.tags && stream.tags.title) || null,
+      forced: Boolean(stream.disposition && stream.disposition.forced),
+    })),
+  };
+}
+
+// Where a language hint was found in the metadata of a file
+export type LanguageHintSource = 'audio' | 'subtitles' | 'container';
+
+export interface LanguageHint {
+  language: string; // Whisper language code
+  source: LanguageHintSource;
+}
+
+// ISO 639-2 codes to Whisper codes: the bibliographic codes used to tag tracks,
+// and the terminology codes some tools write instead (e.g. 'fra' for 'fre')
+const LANGUAGE_TAGS: Record<string, string> = {
+  fra: 'fr', deu: 'de', zho: 'zh', nld: 'nl', ces: 'cs', ron: 'ro', ell: 'el', msa: 'ms', slk: 'sk', mri: 'mi',
+  cym: 'cy', fas: 'fa', mkd: 'mk', eus: 'eu', isl: 'is', hye: 'hy', sqi: 'sq', kat: 'ka', mya: 'my', bod: 'bo',
+  nob: 'no',
+};
+for (const [code, tag] of Object.entries(ISO_639_2_CODES)) {
+  // Cantonese shares 'chi' with Chinese, which comes first
+  if (!(tag in LANGUAGE_TAGS)) LANGUAGE_TAGS[tag] = code;
+}
+
+/**
+ * The Whisper language code of a language tag: ISO 639-2 ('ara', 'fre' or
+ * 'fra'), ISO 639-1 ('ar') or a locale ('ar-EG')
+ * @returns The language code, or null for unknown tags and 'und'
+ */
+export function toLanguageCode(tag: string | null): string | null {
+  if (!tag) return null;
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  if (primary.length === 2) {
+    return primary !== 'auto' && LANGUAGE_CODES.includes(primary) ? primary : null;
+  }
+  return LANGUAGE_TAGS[primary] || null;
+}
+
+/**
+ * Find the spoken language in the metadata of a file: the language tag of the
+ * first audio stream, else the language all full subtitle tracks share, else
+ * a language tag of the container
+ * @returns The language, or null if the file is not tagged
+ */
+export function getLanguageHint(media: MediaInfo): LanguageHint | null {
+  const audio = media.streams.find(stream => stream.codecType === 'audio');
+  const audioLanguage = audio ? toLanguageCode(audio.language) : null;
+  if (audioLanguage) {
+    return { language: audioLanguage, source: 'audio' };
+  }
+
+  // Subtitles in several languages are translations, they do not tell the spoken one
+  const subtitleLanguages = new Set(media.streams
+    .filter(stream => stream.codecType === 'subtitle' && !stream.forced)
+    .map(stream => toLanguageCode(stream.language)));
+  if (subtitleLanguages.size === 1) {
+    const [language] = Array.from(subtitleLanguages);
+    if (language) {
+      return { language, source: 'subtitles' };
+    }
+  }
+
+  const containerLanguage = toLanguageCode(media.tags.language || media.tags.LANGUAGE || null);
+  return containerLanguage ? { language: containerLanguage, source: 'container' } : null;
+}
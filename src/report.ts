@@ -0,0 +1,104 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { JobStore } from './jobs';
+import type { SpeechSummary } from './vad';
+
+export interface RunReport {
+  startedAt: string;
+  finishedAt: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  // Totals of the videos where only the speech was transcribed, null if VAD was off
+  speech: {
+    durationMs: number; // Length of the audio
+    speechMs: number;   // Length of the speech that was transcribed
+    ratio: number;      // Share of the audio that is speech, from 0 to 1
+    savedMs: number;    // Audio skipped as silence or music
+  } | null;
+  jobs: {
+    videoPath: string;
+    status: string;
+    attempts: number;
+    error?: string;
+    speech?: SpeechSummary;
+  }[];
+}
+
+/**
+ * Summarise the outcome of every job in the store
+ * @param store The job store of the finished run
+ * @param startedAt When the run started
+ */
+export function buildRunReport(store: JobStore, startedAt: Date): RunReport {
+  const jobs = store.jobs.map(job => ({
+    videoPath: job.videoPath,
+    status: job.status,
+    attempts: job.attempts,
+    error: job.error,
+    speech: job.speech,
+  }));
+
+  const withSpeech = jobs.filter(job => job.status === 'done' && job.speech);
+  const durationMs = withSpeech.reduce((sum, job) => sum + job.speech!.durationMs, 0);
+  const speechMs = withSpeech.reduce((sum, job) => sum + job.speech!.speechMs, 0);
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    total: jobs.length,
+    succeeded: jobs.filter(job => job.status === 'done').length,
+    failed: jobs.filter(job => job.status === 'failed').length,
+    speech: withSpeech.length > 0
+      ? { durationMs, speechMs, ratio: durationMs > 0 ? speechMs / durationMs : 0, savedMs: durationMs - speechMs }
+      : null,
+    jobs,
+  };
+}
+
+/**
+ * Write the report as JSON
+ */
+export async function writeRunReport(report: RunReport, reportPath: string): Promise<void> {
+  await fs.ensureDir(path.dirname(reportPath));
+  await fs.writeJson(reportPath, report, { spaces: 2 });
+  console.log(`📄 Run report written to ${reportPath}`);
+}
+
+/**
+ * Print the report as a table, failures first
+ */
+export function printRunReport(report: RunReport): void {
+  console.log(`\n📊 Run summary: ${report.succeeded} succeeded, ${report.failed} failed, ${report.total} total`);
+  if (report.speech) {
+    console.log(`🔇 Speech: ${Math.round(report.speech.ratio * 100)}% of ${formatDuration(report.speech.durationMs)}, ` +
+      `${formatDuration(report.speech.savedMs)} of silence and music not transcribed`);
+  }
+
+  if (report.jobs.length === 0) {
+    return;
+  }
+
+  const rows = [...report.jobs]
+    .sort((a, b) => Number(b.status === 'failed') - Number(a.status === 'failed'))
+    .map(job => ({
+      video: path.basename(job.videoPath),
+      status: job.status,
+      attempts: job.attempts,
+      ...(report.speech ? { speech: job.speech && job.speech.durationMs > 0 ? `${Math.round(job.speech.speechMs / job.speech.durationMs * 100)}%` : '' } : {}),
+      error: job.status === 'failed' ? (job.error || '').split('\n')[0].slice(0, 80) : '',
+    }));
+
+  console.table(rows);
+}
+
+/**
+ * Format milliseconds like "1:02:03" or "2:03"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor(seconds / 60) % 60;
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { ConfigError } from './configFile';
+import { RetryPolicy, getErrorMessage, getRetryDelay, isRetryableError } from './retry';
+
+const policy: RetryPolicy = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+test('does not retry missing files, bad models, corrupt media or broken settings', async () => {
+  const missingFile = await fs.readFile(path.join(os.tmpdir(), 'whispernode-missing.mp4')).catch(error => error);
+  const errors: unknown[] = [
+    missingFile,
+    new Error('whisper-cli executable not found: whisper.cpp must be built first (see prepareWhisper)'),
+    new Error('Model huge is not supported by nodejs-whisper'),
+    new Error('Command failed: ffmpeg -i talk.mp4\ntalk.mp4: Invalid data found when processing input'),
+    new ConfigError('videos/.whispernode.yaml', ['modelName: expected one of tiny, base']),
+  ];
+  assert.deepEqual(errors.map(isRetryableError), errors.map(() => false));
+});
+
+test('retries crashes, timeouts and other failures', () => {
+  const errors: unknown[] = [
+    new Error('Transcription timed out after 120 minute(s)'),
+    new Error('whisper.cpp exited with code null'),
+    new Error('CUDA error: out of memory'),
+    'socket hang up',
+  ];
+  assert.deepEqual(errors.map(isRetryableError), errors.map(() => true));
+});
+
+test('doubles the delay before each retry up to the maximum', () => {
+  assert.deepEqual([1, 2, 3, 4, 5].map(attempt => getRetryDelay(attempt, policy)), [1000, 2000, 4000, 5000, 5000]);
+});
+
+test('gets the message of errors and of anything else thrown', () => {
+  assert.equal(getErrorMessage(new Error('ffmpeg failed')), 'ffmpeg failed');
+  assert.equal(getErrorMessage('ffmpeg failed'), 'ffmpeg failed');
+  assert.equal(getErrorMessage(137), '137');
+});
@@ -0,0 +1,50 @@
+export interface RetryPolicy {
+  maxRetries: number;  // Retries after the first attempt
+  baseDelayMs: number; // Delay before the first retry, doubled for every further one
+  maxDelayMs: number;
+}
+
+// Errors that will fail the same way no matter how often they are retried
+const PERMANENT_ERROR_PATTERNS = [
+  /no such file/i,
+  /ENOENT/,
+  /EACCES/,
+  /Enter a valid model name/i,
+  /Model file does not exist/i,
+  /is not supported by nodejs-whisper/,
+  /whisper-cli executable not found/i,
+  /Invalid data found when processing input/i, // ffmpeg: corrupt or unsupported file
+  /does not contain any stream/i,
+  /Output file #0 does not contain any stream/i,
+  /Invalid configuration in/, // A broken per-folder override file
+];
+
+/**
+ * Get the message of an error thrown by whisper.cpp, ffmpeg or a translator
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Decide whether a failed attempt is worth retrying
+ * Missing files, bad models and corrupt media are permanent, anything else
+ * (GPU out of memory, killed processes, I/O hiccups) is retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  const message = getErrorMessage(error);
+  return !PERMANENT_ERROR_PATTERNS.some(pattern => pattern.test(message));
+}
+
+/**
+ * Exponential backoff delay before the given retry
+ * @param attempt The attempt that just failed (1 = first attempt)
+ * @param policy The retry policy
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
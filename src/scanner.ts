@@ -0,0 +1,151 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { SUPPORTED_EXTENSIONS } from './config';
+
+export interface ScanOptions {
+  include: string[];       // Glob patterns a file must match (empty = everything)
+  exclude: string[];       // Glob patterns for files and folders to skip
+  maxDepth: number;        // 0 = only the root folder, Infinity = no limit
+  followSymlinks: boolean; // Whether to descend into / pick up symlinked entries
+  extensions?: string[];   // File extensions to pick up, SUPPORTED_EXTENSIONS by default
+}
+
+// Check if a file is a video based on its extension
+export function isVideoFile(file: string): boolean {
+  const extension = path.extname(file).toLowerCase();
+  return SUPPORTED_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}`
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    switch (char) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          // "**/" matches zero or more folders, a trailing "**" matches everything
+          if (pattern[i + 2] === '/') {
+            regex += '(?:.*/)?';
+            i += 2;
+          } else {
+            regex += '.*';
+            i += 1;
+          }
+        } else {
+          regex += '[^/]*';
+        }
+        break;
+      case '?':
+        regex += '[^/]';
+        break;
+      case '[': {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          regex += '\\[';
+        } else {
+          regex += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+          i = end;
+        }
+        break;
+      }
+      case '{':
+        inGroup = true;
+        regex += '(?:';
+        break;
+      case '}':
+        if (inGroup) {
+          inGroup = false;
+          regex += ')';
+        } else {
+          regex += '\\}';
+        }
+        break;
+      case ',':
+        regex += inGroup ? '|' : ',';
+        break;
+      default:
+        regex += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`, 'i');
+}
+
+/**
+ * Check a relative path against a list of glob patterns
+ * Patterns without a "/" are matched against the last path segment only
+ */
+export function matchesAny(relativePath: string, patterns: string[]): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+  const baseName = path.posix.basename(normalized);
+
+  return patterns.some(pattern => {
+    const target = pattern.includes('/') ? normalized : baseName;
+    return globToRegExp(pattern).test(target);
+  });
+}
+
+/**
+ * Recursively find all supported media files (or files with the given extensions) below a directory
+ * @param rootDir The directory to scan
+ * @param options Include/exclude patterns, depth limit and symlink handling
+ * @returns Absolute paths of matching files, sorted
+ */
+export async function scanVideos(rootDir: string, options: ScanOptions): Promise<string[]> {
+  const results: string[] = [];
+  // Real paths of visited folders, so symlink loops are only walked once
+  const visited = new Set<string>();
+
+  async function walk(dir: string, depth: number): Promise<void> {
+    const realDir = await fs.realpath(dir);
+    if (visited.has(realDir)) return;
+    visited.add(realDir);
+
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(rootDir, fullPath);
+
+      if (options.exclude.length > 0 && matchesAny(relativePath, options.exclude)) {
+        continue;
+      }
+
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+
+      if (entry.isSymbolicLink()) {
+        if (!options.followSymlinks) continue;
+
+        try {
+          const stats = await fs.stat(fullPath);
+          isDirectory = stats.isDirectory();
+          isFile = stats.isFile();
+        } catch (error) {
+          console.log(`⚠️ Skipping broken symlink: ${relativePath}`);
+          continue;
+        }
+      }
+
+      if (isDirectory) {
+        if (depth < options.maxDepth) {
+          await walk(fullPath, depth + 1);
+        }
+      } else if (isFile && (options.extensions ? options.extensions.includes(path.extname(entry.name).toLowerCase()) : isVideoFile(entry.name))) {
+        if (options.include.length === 0 || matchesAny(relativePath, options.include)) {
+          results.push(fullPath);
+        }
+      }
+    }
+  }
+
+  await walk(rootDir, 0);
+  return results.sort();
+}
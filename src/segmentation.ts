@@ -0,0 +1,129 @@
+// A piece of text that is never broken across lines: a word with the
+// punctuation attached to it
+export interface TextUnit {
+  text: string;
+  spaceAfter: boolean; // Followed by whitespace in the original text
+}
+
+// Characters shown twice as wide as Latin letters: CJK ideographs, kana, Hangul and fullwidth forms
+const WIDE_CHARACTER = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA960-\uA97F\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]|[\uD840-\uD8BF][\uDC00-\uDFFF]/;
+
+// Scripts written without spaces between words or sentences: Chinese and Japanese
+const UNSPACED_CHARACTER = /[\u2E80-\u303F\u3040-\u30FF\u31F0-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFF60]/;
+
+// Bidirectional control characters, which take no space
+const BIDI_CONTROL = /^[\u200E\u200F\u202A-\u202E\u2066-\u2069]+$/;
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+/**
+ * Get a cached segmenter for a language
+ * @param language A Whisper language code, 'auto' or null for script-based segmentation
+ * @param granularity Word or grapheme boundaries
+ */
+function getSegmenter(language: string | null | undefined, granularity: 'word' | 'grapheme'): Intl.Segmenter {
+  const locale = language && language !== 'auto' ? language : 'und';
+  const key = `${locale}:${granularity}`;
+  let segmenter = segmenters.get(key);
+
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(locale, { granularity });
+    } catch (error) {
+      // Codes like "jw" that are not valid locales fall back to the script-based rules
+      segmenter = new Intl.Segmenter('und', { granularity });
+    }
+    segmenters.set(key, segmenter);
+  }
+
+  return segmenter;
+}
+
+/**
+ * Split text into the units a line may be broken between. Words are found
+ * with Intl.Segmenter, so Chinese, Japanese, Thai, Lao, Khmer and Burmese
+ * break between words even without spaces. Punctuation stays with its word.
+ * @param text The text to split
+ * @param language The language of the text, if known
+ */
+export function segmentText(text: string, language?: string | null): TextUnit[] {
+  const units: TextUnit[] = [];
+  let prefix = ''; // Opening punctuation waiting for the word it belongs to
+
+  const segments = Array.from(getSegmenter(language, 'word').segment(text));
+
+  segments.forEach(({ segment, isWordLike }, index) => {
+    const previous = units[units.length - 1];
+    const next = segments[index + 1];
+
+    if (/^\s+$/.test(segment)) {
+      if (previous) previous.spaceAfter = true;
+      return;
+    }
+
+    if (isWordLike) {
+      units.push({ text: prefix + segment, spaceAfter: false });
+      prefix = '';
+    } else if (previous && !prefix && (!previous.spaceAfter || !next || /^\s+$/.test(next.segment))) {
+      // Closing punctuation, punctuation inside a word ("well-known", "3.5"),
+      // or standing alone after a space as in French ("Bonjour !")
+      previous.text += previous.spaceAfter ? ` ${segment}` : segment;
+      previous.spaceAfter = false;
+    } else {
+      prefix += segment;
+    }
+  });
+
+  if (prefix) {
+    units.push({ text: prefix, spaceAfter: false });
+  }
+
+  return units;
+}
+
+/**
+ * The words of a text, without punctuation
+ * @param text The text to split
+ * @param language The language of the text, if known
+ */
+export function splitWords(text: string, language?: string | null): string[] {
+  return Array.from(getSegmenter(language, 'word').segment(text))
+    .filter(segment => segment.isWordLike)
+    .map(segment => segment.segment);
+}
+
+/**
+ * Displayed width of text: one per user-perceived character, two for wide CJK
+ * characters. Combining marks (Arabic harakat, Thai vowels, accents) and
+ * bidirectional controls add nothing.
+ */
+export function textWidth(text: string): number {
+  let width = 0;
+
+  for (const { segment } of getSegmenter(null, 'grapheme').segment(text)) {
+    if (BIDI_CONTROL.test(segment)) continue;
+    width += WIDE_CHARACTER.test(segment) ? 2 : 1;
+  }
+
+  return width;
+}
+
+/**
+ * Join two pieces of text, with a space unless both sides are Chinese or Japanese
+ */
+export function joinText(first: string, second: string): string {
+  if (!first) return second;
+  if (!second) return first;
+
+  const unspaced = UNSPACED_CHARACTER.test(first[first.length - 1]) && UNSPACED_CHARACTER.test(second[0]);
+  return unspaced ? first + second : `${first} ${second}`;
+}
+
+/**
+ * Join units back into text
+ */
+export function joinUnits(units: TextUnit[]): string {
+  return units
+    .map((unit, index) => unit.text + (unit.spaceAfter && index < units.length - 1 ? ' ' : ''))
+    .join('');
+}
@@ -0,0 +1,435 @@
+import http from 'http';
+import path from 'path';
+import fs from 'fs-extra';
+import { randomUUID } from 'crypto';
+import { pipeline as streamPipeline } from 'stream/promises';
+import { config, Config, FORMAT_EXTENSIONS, SUPPORTED_EXTENSIONS } from './config';
+import { ConfigError, parseConfigSettings } from './configFile';
+import { transcribe } from './api';
+import { TranscriptionStage } from './pipeline';
+import { getErrorMessage } from './retry';
+import { WhisperPool, createWhisperPool } from './whisperPool';
+
+export interface ServiceOptions {
+  port: number;
+  host: string;
+  dataDir: string; // Uploads and job outputs are stored here
+}
+
+type ServiceJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+interface ServiceJob {
+  id: string;
+  status: ServiceJobStatus;
+  stage: TranscriptionStage | null;
+  file: string;
+  name: string; // File name the client knows the media by, used for the downloads
+  settings: Partial<Config>; // Per-request settings, validated like a per-folder override file
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  language: string | null;
+  segmentCount: number;
+  outputs: string[];
+  error: string | null;
+}
+
+// Request error answered with a status code and a JSON body
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly problems?: string[]) {
+    super(message);
+  }
+}
+
+// Rough progress through a job, the transcription itself does not report any
+const STAGE_PROGRESS: Record<TranscriptionStage, number> = {
+  'extracting-audio': 0.05,
+  'transcribing': 0.2,
+  'finalizing': 0.9,
+};
+
+// Largest JSON request body accepted
+const MAX_JSON_BODY_BYTES = 1024 * 1024;
+
+// Content types of the downloadable formats, others are plain text
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json; charset=utf-8',
+  ttml: 'application/ttml+xml; charset=utf-8',
+  dfxp: 'application/ttml+xml; charset=utf-8',
+  stl: 'application/octet-stream',
+};
+
+// An uploaded media file, stored under a generated name
+interface Upload {
+  file: string;
+  name: string; // Name the client gave the file; only kept, never used as a path
+}
+
+const jobs = new Map<string, ServiceJob>();
+const uploads = new Map<string, Upload>();
+
+// Jobs waiting for a free slot; at most maxConcurrentProcesses run at once, like
+// the videos of batch runs, and their whisper.cpp processes share one pool
+const queue: ServiceJob[] = [];
+let runningCount = 0;
+
+/**
+ * Start the next queued jobs while there are free slots
+ */
+function processQueue(dataDir: string, pool: WhisperPool): void {
+  while (runningCount < config.maxConcurrentProcesses && queue.length > 0) {
+    const job = queue.shift()!;
+    runningCount++;
+    runJob(job, dataDir, pool).finally(() => {
+      runningCount--;
+      processQueue(dataDir, pool);
+    });
+  }
+}
+
+async function runJob(job: ServiceJob, dataDir: string, pool: WhisperPool): Promise<void> {
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  console.log(`🎬 Job ${job.id} started: ${path.basename(job.file)}`);
+
+  try {
+    const result = await transcribe(job.file, {
+      ...job.settings,
+      // Every job writes to its own folder so jobs for files with the same name never collide
+      outputDir: path.join(dataDir, 'jobs', job.id),
+      pool,
+      onStage: stage => {
+        job.stage = stage;
+      },
+    });
+
+    job.status = 'done';
+    job.language = result.language;
+    job.segmentCount = result.segments.length;
+    job.outputs = result.outputs;
+    console.log(`✅ Job ${job.id} done: ${path.basename(job.file)}`);
+  } catch (error) {
+    job.status = 'failed';
+    job.error = getErrorMessage(error);
+    console.error(`❌ Job ${job.id} failed: ${job.error}`);
+  }
+
+  job.finishedAt = new Date().toISOString();
+}
+
+/**
+ * Get the generated file of a job for a format, e.g. "srt" or "text"
+ */
+function findOutput(job: ServiceJob, format: string): string | undefined {
+  const extension = (FORMAT_EXTENSIONS as Record<string, string>)[format];
+  return extension ? job.outputs.find(output => path.extname(output) === extension) : undefined;
+}
+
+function describeJob(job: ServiceJob) {
+  const progress = job.status === 'done' || job.status === 'failed'
+    ? 1
+    : job.stage ? STAGE_PROGRESS[job.stage] : 0;
+
+  const files: Record<string, string> = {};
+  for (const format of Object.keys(FORMAT_EXTENSIONS)) {
+    if (findOutput(job, format)) {
+      files[format] = `/jobs/${job.id}/files/${format}`;
+    }
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    progress,
+    queuePosition: job.status === 'queued' ? queue.indexOf(job) + 1 : null,
+    file: job.file,
+    name: job.name,
+    settings: job.settings,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    language: job.language,
+    segmentCount: job.segmentCount,
+    files,
+    error: job.error,
+  };
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_JSON_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+  } catch (error) {
+    throw new HttpError(400, `Invalid JSON body: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * POST /uploads?filename=name.mp4 - store the request body as a media file
+ */
+async function handleUpload(request: http.IncomingMessage, url: URL, dataDir: string) {
+  const filename = path.basename(url.searchParams.get('filename') || String(request.headers['x-filename'] || ''));
+  if (!filename) {
+    throw new HttpError(400, 'Pass the file name as ?filename=<name> or an X-Filename header');
+  }
+  const extension = path.extname(filename).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new HttpError(400, `Unsupported file type, expected one of: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+
+  // The client's name is kept as metadata only, the file and everything derived
+  // from it are named after the generated ID
+  const id = randomUUID();
+  const filePath = path.join(dataDir, 'uploads', `${id}${extension}`);
+  await fs.ensureDir(path.dirname(filePath));
+
+  try {
+    await streamPipeline(request, fs.createWriteStream(filePath));
+  } catch (error) {
+    await fs.remove(filePath);
+    throw error;
+  }
+
+  uploads.set(id, { file: filePath, name: filename });
+  console.log(`📥 Uploaded ${id}${extension}`);
+  return { id, name: filename, file: filePath };
+}
+
+/**
+ * Find the media file of a job request: an upload ID or a file below videosDir
+ */
+async function resolveJobFile(body: Record<string, unknown>): Promise<Upload> {
+  if (body.upload !== undefined && body.file !== undefined) {
+    throw new HttpError(400, 'Expected either "upload" or "file", not both');
+  }
+
+  if (body.upload !== undefined) {
+    if (typeof body.upload !== 'string') {
+      throw new HttpError(400, '"upload" must be an upload ID');
+    }
+    const uploaded = uploads.get(body.upload);
+    if (!uploaded) {
+      throw new HttpError(404, `Unknown upload: ${body.upload}`);
+    }
+    return uploaded;
+  }
+
+  if (body.file !== undefined) {
+    if (typeof body.file !== 'string') {
+      throw new HttpError(400, '"file" must be a path in the videos directory');
+    }
+    const videosDir = path.resolve(config.videosDir);
+    const filePath = path.resolve(videosDir, body.file);
+    const relative = path.relative(videosDir, filePath);
+
+    // Only files the service was given access to can be referenced
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new HttpError(403, `Referenced files must be inside the videos directory (${videosDir})`);
+    }
+    if (!(await fs.pathExists(filePath))) {
+      throw new HttpError(404, `File not found: ${body.file}`);
+    }
+    return { file: filePath, name: path.basename(filePath) };
+  }
+
+  throw new HttpError(400, 'Expected "upload" (an upload ID) or "file" (a path in the videos directory)');
+}
+
+/**
+ * POST /jobs - queue a transcription
+ * Body: { "upload": "<id>" } or { "file": "<path>" }, plus optional "settings"
+ * such as { "modelName": "small", "defaultLanguage": "ar", "formats": { "json": true }, "translateToEnglish": true }
+ */
+async function handleSubmit(request: http.IncomingMessage, dataDir: string, pool: WhisperPool) {
+  const body = await readJsonBody(request);
+  if (!isObject(body)) {
+    throw new HttpError(400, 'Expected a JSON object');
+  }
+
+  const { file, name } = await resolveJobFile(body);
+
+  // Requests may change the same transcription settings as per-folder override files
+  let settings: Partial<Config>;
+  try {
+    settings = parseConfigSettings(body.settings ?? {}, 'the job settings', true);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw new HttpError(400, 'Invalid job settings', error.problems);
+    }
+    throw error;
+  }
+
+  const job: ServiceJob = {
+    id: randomUUID(),
+    status: 'queued',
+    stage: null,
+    file,
+    name,
+    settings,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    language: null,
+    segmentCount: 0,
+    outputs: [],
+    error: null,
+  };
+
+  jobs.set(job.id, job);
+  queue.push(job);
+  processQueue(dataDir, pool);
+  return job;
+}
+
+function getJob(id: string): ServiceJob {
+  const job = jobs.get(id);
+  if (!job) {
+    throw new HttpError(404, `Unknown job: ${id}`);
+  }
+  return job;
+}
+
+/**
+ * Content-Disposition of a download: plain ASCII for old clients, the exact
+ * name (RFC 5987) for the others
+ */
+function getContentDisposition(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * GET /jobs/:id/files/:format - download a generated file
+ */
+async function handleDownload(response: http.ServerResponse, job: ServiceJob, format: string): Promise<void> {
+  if (!(format in FORMAT_EXTENSIONS)) {
+    throw new HttpError(404, `Unknown format "${format}", expected one of: ${Object.keys(FORMAT_EXTENSIONS).join(', ')}`);
+  }
+  if (job.status !== 'done') {
+    throw new HttpError(409, `Job is ${job.status}`);
+  }
+
+  const output = findOutput(job, format);
+  if (!output || !(await fs.pathExists(output))) {
+    throw new HttpError(404, `The job did not produce ${format} output`);
+  }
+
+  // Outputs are named after the stored file; offer them under the client's name,
+  // e.g. talk-viXXXXXX.srt rather than <upload id>.srt
+  const storedName = path.basename(job.file, path.extname(job.file));
+  const outputName = path.basename(output);
+  const downloadName = path.basename(job.name, path.extname(job.name))
+    + (outputName.startsWith(storedName) ? outputName.slice(storedName.length) : path.extname(output));
+
+  response.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[format] || 'text/plain; charset=utf-8',
+    'Content-Disposition': getContentDisposition(downloadName),
+  });
+  await streamPipeline(fs.createReadStream(output), response);
+}
+
+/**
+ * DELETE /jobs/:id - forget a finished job and remove its files
+ */
+async function handleDelete(job: ServiceJob, dataDir: string): Promise<void> {
+  if (job.status === 'queued' || job.status === 'running') {
+    throw new HttpError(409, `Job is ${job.status}`);
+  }
+
+  jobs.delete(job.id);
+  await fs.remove(path.join(dataDir, 'jobs', job.id));
+}
+
+async function handleRequest(
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  dataDir: string,
+  pool: WhisperPool
+): Promise<void> {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const route = `${request.method} /${parts.map((part, i) => i % 2 === 1 ? ':' : part).join('/')}`;
+
+  switch (route) {
+    case 'GET /health':
+      return sendJson(response, 200, { status: 'ok', running: runningCount, queued: queue.length });
+    case 'POST /uploads':
+      return sendJson(response, 201, await handleUpload(request, url, dataDir));
+    case 'POST /jobs':
+      return sendJson(response, 202, describeJob(await handleSubmit(request, dataDir, pool)));
+    case 'GET /jobs':
+      return sendJson(response, 200, Array.from(jobs.values()).map(describeJob));
+    case 'GET /jobs/:':
+      return sendJson(response, 200, describeJob(getJob(parts[1])));
+    case 'DELETE /jobs/:':
+      await handleDelete(getJob(parts[1]), dataDir);
+      response.writeHead(204);
+      response.end();
+      return;
+    case 'GET /jobs/:/files/:':
+      return handleDownload(response, getJob(parts[1]), parts[3]);
+    default:
+      throw new HttpError(404, `Not found: ${request.method} ${url.pathname}`);
+  }
+}
+
+/**
+ * Start the HTTP transcription service
+ * Jobs are kept in memory and share the maxConcurrentProcesses limit, for jobs
+ * and for whisper.cpp processes alike. Closing the server stops whisper.cpp.
+ * @param options Where to listen and where to store files
+ * @returns The listening server
+ */
+export async function startService(options: ServiceOptions): Promise<http.Server> {
+  await fs.ensureDir(options.dataDir);
+
+  const pool = createWhisperPool(config.maxConcurrentProcesses);
+  const server = http.createServer((request, response) => {
+    handleRequest(request, response, options.dataDir, pool).catch(error => {
+      if (response.headersSent) {
+        response.destroy();
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message, problems: error.problems });
+      } else {
+        console.error('❌ Request failed:', error);
+        sendJson(response, 500, { error: getErrorMessage(error) });
+      }
+    });
+  });
+
+  server.on('close', () => pool.close());
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  console.log(`🌐 WhisperNode service listening on http://${options.host}:${options.port}`);
+  return server;
+}
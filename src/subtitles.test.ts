@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { formatTimestamp, parseSubtitles, parseTimestamp, serializeSubtitles } from './subtitles';
+
+const srt = [
+  '1',
+  '00:00:01,000 --> 00:00:02,500',
+  'We started the engine',
+  '',
+  '2',
+  '00:00:03,000 --> 00:00:04,000',
+  'and drove off',
+  '',
+].join('\r\n');
+
+const vtt = [
+  'WEBVTT',
+  'Kind: captions',
+  '',
+  'STYLE',
+  '::cue { color: yellow }',
+  '',
+  'intro',
+  '00:00:01.000 --> 00:00:02.500 align:start line:0',
+  'Hello there',
+  '',
+  'NOTE checked by hand',
+  '',
+  '00:00:03.000 --> 00:00:04.000',
+  '<lang ar>مرحبا</lang>',
+  '',
+].join('\n');
+
+test('parses and formats timestamps', () => {
+  assert.equal(parseTimestamp('01:02:03,456'), 3_723_456);
+  assert.equal(parseTimestamp('02:03.4'), 123_400);
+  assert.equal(formatTimestamp(3_723_456, 'srt'), '01:02:03,456');
+  assert.equal(formatTimestamp(-5, 'vtt'), '00:00:00.000');
+});
+
+test('round-trips SRT content', () => {
+  const document = parseSubtitles(srt);
+  assert.equal(document.format, 'srt');
+  assert.equal(document.lineEnding, '\r\n');
+  assert.deepEqual(document.cues, [
+    { id: '1', start: 1000, end: 2500, text: 'We started the engine', settings: '', notes: [] },
+    { id: '2', start: 3000, end: 4000, text: 'and drove off', settings: '', notes: [] },
+  ]);
+  assert.equal(serializeSubtitles(document), srt);
+});
+
+test('round-trips WebVTT identifiers, settings, blocks, notes and languages', () => {
+  const document = parseSubtitles(vtt);
+  assert.equal(document.format, 'vtt');
+  assert.equal(document.header, 'WEBVTT\nKind: captions');
+  assert.deepEqual(document.blocks, [{ type: 'STYLE', content: 'STYLE\n::cue { color: yellow }' }]);
+  assert.deepEqual(document.cues, [
+    { id: 'intro', start: 1000, end: 2500, text: 'Hello there', settings: 'align:start line:0', notes: ['NOTE checked by hand'] },
+    { id: null, start: 3000, end: 4000, text: 'مرحبا', settings: '', notes: [], language: 'ar' },
+  ]);
+  assert.equal(serializeSubtitles(document), vtt);
+});
+
+test('converts WebVTT to SRT without WebVTT-only parts', () => {
+  assert.equal(serializeSubtitles(parseSubtitles(vtt), 'srt'), [
+    '1',
+    '00:00:01,000 --> 00:00:02,500',
+    'Hello there',
+    '',
+    '2',
+    '00:00:03,000 --> 00:00:04,000',
+    'مرحبا',
+    '',
+  ].join('\n'));
+});
@@ -0,0 +1,186 @@
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// One subtitle cue, times in milliseconds
+export interface Cue {
+  id: string | null;  // SRT sequence number or WebVTT cue identifier
+  start: number;
+  end: number;
+  text: string;       // Lines separated by "\n"
+  settings: string;   // WebVTT cue settings ("align:start line:0") or SRT coordinates, '' if none
+  notes: string[];    // WebVTT NOTE blocks that follow this cue
+  language?: string;  // Language of this cue when a file switches languages, a WebVTT <lang> span
+}
+
+// A WebVTT block that is not a cue
+export interface VttBlock {
+  type: 'NOTE' | 'STYLE' | 'REGION';
+  content: string;    // The whole block, including the keyword line
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  header: string;     // WebVTT: the "WEBVTT" line and any header lines below it
+  blocks: VttBlock[]; // WebVTT: STYLE, REGION and NOTE blocks before the first cue
+  cues: Cue[];
+  lineEnding: '\n' | '\r\n';
+}
+
+// A WebVTT cue whose whole text is one <lang> span
+const LANG_SPAN_PATTERN = /^<lang ([A-Za-z]{2,3}(?:-[A-Za-z0-9]+)*)>([\s\S]*)<\/lang>$/;
+
+const TIMING_PATTERN = /^\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})(.*)$/;
+
+/**
+ * Parse "01:02:03,456", "01:02:03.456" or "02:03.456" into milliseconds
+ */
+export function parseTimestamp(timestamp: string): number {
+  const [clock, fraction] = timestamp.trim().split(/[,.]/);
+  const parts = clock.split(':').map(part => parseInt(part, 10));
+  const [hours, minutes, seconds] = parts.length === 3 ? parts : [0, ...parts];
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + parseInt(fraction.padEnd(3, '0'), 10);
+}
+
+/**
+ * Format milliseconds as "01:02:03,456" (SRT) or "01:02:03.456" (WebVTT)
+ */
+export function formatTimestamp(ms: number, format: SubtitleFormat): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const millis = total % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${format === 'srt' ? ',' : '.'}${pad(millis, 3)}`;
+}
+
+/**
+ * Detect the format of subtitle content: WebVTT files start with "WEBVTT"
+ */
+export function detectSubtitleFormat(content: string): SubtitleFormat {
+  return /^\uFEFF?WEBVTT(?=$|[ \t\r\n])/.test(content) ? 'vtt' : 'srt';
+}
+
+/**
+ * Split content into blocks separated by blank lines
+ */
+function splitBlocks(content: string): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') {
+      if (current.length > 0) blocks.push(current);
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) blocks.push(current);
+
+  return blocks;
+}
+
+/**
+ * Parse a cue block: an optional identifier line, the timing line, then the text
+ * @returns The cue, or null if the block has no timing line
+ */
+function parseCueBlock(lines: string[], format: SubtitleFormat): Cue | null {
+  const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+  if (timingIndex === -1 || timingIndex > 1) {
+    return null;
+  }
+
+  const match = lines[timingIndex].match(TIMING_PATTERN)!;
+  const cue: Cue = {
+    id: timingIndex === 1 ? lines[0].trim() : null,
+    start: parseTimestamp(match[1]),
+    end: parseTimestamp(match[2]),
+    text: lines.slice(timingIndex + 1).join('\n'),
+    settings: match[3].trim(),
+    notes: [],
+  };
+
+  const span = format === 'vtt' ? cue.text.match(LANG_SPAN_PATTERN) : null;
+  if (span && !span[2].includes('</lang>')) {
+    cue.language = span[1];
+    cue.text = span[2];
+  }
+  return cue;
+}
+
+/**
+ * Parse SRT or WebVTT content into a subtitle document
+ * Blocks that are neither cues nor WebVTT NOTE/STYLE/REGION blocks are skipped.
+ * @param content The file content
+ * @param format The format, detected from the content if not given
+ */
+export function parseSubtitles(content: string, format: SubtitleFormat = detectSubtitleFormat(content)): SubtitleDocument {
+  const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+  const blocks = splitBlocks(content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n'));
+  const document: SubtitleDocument = { format, header: '', blocks: [], cues: [], lineEnding };
+
+  if (format === 'vtt') {
+    const headerBlock = blocks.shift();
+    document.header = headerBlock ? headerBlock.join('\n') : 'WEBVTT';
+  }
+
+  for (const block of blocks) {
+    const keyword = block[0].match(/^(NOTE|STYLE|REGION)(?=$|[ \t])/);
+
+    if (format === 'vtt' && keyword) {
+      const vttBlock: VttBlock = { type: keyword[1] as VttBlock['type'], content: block.join('\n') };
+      const lastCue = document.cues[document.cues.length - 1];
+      if (lastCue && vttBlock.type === 'NOTE') {
+        lastCue.notes.push(vttBlock.content);
+      } else {
+        document.blocks.push(vttBlock);
+      }
+      continue;
+    }
+
+    const cue = parseCueBlock(block, format);
+    if (cue) {
+      document.cues.push(cue);
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Write a subtitle document as SRT or WebVTT
+ * SRT cues are numbered from 1; WebVTT identifiers, settings and blocks are kept.
+ * @param document The document to write
+ * @param format The format to write, the document's own format by default
+ */
+export function serializeSubtitles(document: SubtitleDocument, format: SubtitleFormat = document.format): string {
+  const blocks: string[] = [];
+
+  if (format === 'vtt') {
+    blocks.push(document.format === 'vtt' && document.header ? document.header : 'WEBVTT');
+    blocks.push(...document.blocks.map(block => block.content));
+  }
+
+  document.cues.forEach((cue, index) => {
+    const lines: string[] = [];
+
+    if (format === 'srt') {
+      lines.push(String(index + 1));
+    } else if (cue.id && !(document.format === 'srt' && /^\d+$/.test(cue.id))) {
+      lines.push(cue.id);
+    }
+
+    const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(cue.end, format)}`;
+    lines.push(cue.settings && format === document.format ? `${timing} ${cue.settings}` : timing);
+    if (cue.text) {
+      lines.push(format === 'vtt' && cue.language ? `<lang ${cue.language}>${cue.text}</lang>` : cue.text);
+    }
+    blocks.push(lines.join('\n'));
+
+    if (format === 'vtt') {
+      blocks.push(...cue.notes);
+    }
+  });
+
+  return (blocks.join('\n\n') + '\n').replace(/\n/g, document.lineEnding);
+}
@@ -0,0 +1,149 @@
+import { Config } from './config';
+import { Cue } from './subtitles';
+import { wrapText } from './postprocess';
+
+// Translates subtitle text. Implementations get whole cues, so they can keep
+// the context of a sentence that spans several texts.
+export interface Translator {
+  readonly name: string;
+  /**
+   * @param texts The texts to translate, one per cue, lines joined with spaces
+   * @param from Language of the texts, null if unknown
+   * @param to The language to translate into
+   * @returns The translations, in the same order
+   */
+  translate(texts: string[], from: string | null, to: string): Promise<string[]>;
+}
+
+// Creates a translator from the configuration of a video
+export type TranslatorFactory = (videoConfig: Config) => Translator;
+
+// Texts sent to LibreTranslate per request
+const LIBRETRANSLATE_BATCH_SIZE = 50;
+
+/**
+ * A translator for tests and dry runs: every text is returned with the
+ * target language in front, like "[fr] Hello"
+ */
+export function createMockTranslator(): Translator {
+  return {
+    name: 'mock',
+    async translate(texts, from, to) {
+      return texts.map(text => `[${to}] ${text}`);
+    },
+  };
+}
+
+/**
+ * A translator using a LibreTranslate server, which runs offline on the
+ * local machine (https://github.com/LibreTranslate/LibreTranslate)
+ * @param url Address of the server, e.g. http://localhost:5000
+ */
+export function createLibreTranslateTranslator(url: string): Translator {
+  const endpoint = `${url.replace(/\/+$/, '')}/translate`;
+
+  return {
+    name: 'libretranslate',
+    async translate(texts, from, to) {
+      const translations: string[] = [];
+
+      for (let i = 0; i < texts.length; i += LIBRETRANSLATE_BATCH_SIZE) {
+        const batch = texts.slice(i, i + LIBRETRANSLATE_BATCH_SIZE);
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ q: batch, source: from || 'auto', target: to, format: 'text' }),
+        }).catch(error => {
+          throw new Error(`LibreTranslate is not reachable at ${url}: ${error.cause?.message || error.message}`);
+        });
+
+        const data: any = await response.json().catch(() => ({}));
+        if (!response.ok || !Array.isArray(data.translatedText)) {
+          throw new Error(`LibreTranslate at ${url} failed to translate into ${to}: ${data.error || response.statusText}`);
+        }
+        translations.push(...data.translatedText.map(String));
+      }
+
+      return translations;
+    },
+  };
+}
+
+const TRANSLATORS = new Map<string, TranslatorFactory>([
+  ['libretranslate', videoConfig => createLibreTranslateTranslator(videoConfig.translationUrl)],
+  ['mock', () => createMockTranslator()],
+]);
+
+/**
+ * Add a translation backend, selected with translationBackend
+ * @param name Name of the backend
+ * @param factory Creates the translator for a video
+ */
+export function registerTranslator(name: string, factory: TranslatorFactory): void {
+  TRANSLATORS.set(name, factory);
+}
+
+/**
+ * Names of the translation backends, including registered ones
+ */
+export function getTranslationBackends(): string[] {
+  return Array.from(TRANSLATORS.keys());
+}
+
+/**
+ * Create the translator configured by translationBackend
+ */
+export function createTranslator(videoConfig: Config): Translator {
+  const factory = TRANSLATORS.get(videoConfig.translationBackend);
+  if (!factory) {
+    throw new Error(`Unknown translation backend "${videoConfig.translationBackend}", expected one of: ${getTranslationBackends().join(', ')}`);
+  }
+  return factory(videoConfig);
+}
+
+/**
+ * Translate cues, keeping their timing. Cues are translated in groups of the
+ * same source language, so multi-language transcripts are handled; cues
+ * already in the target language are kept as they are. The translations are
+ * wrapped to maxCharsPerLine again.
+ * @param cues The post-processed cues
+ * @param translator The backend to use
+ * @param language Language of the cues, null if unknown; cues with a language of their own use it
+ * @param target The language to translate into
+ * @param maxCharsPerLine Maximum width per line
+ * @returns The translated cues
+ */
+export async function translateCues(
+  cues: Cue[],
+  translator: Translator,
+  language: string | null,
+  target: string,
+  maxCharsPerLine: number
+): Promise<Cue[]> {
+  const sourceOf = (cue: Cue) => {
+    const source = cue.language || language;
+    return source && source !== 'auto' ? source : null;
+  };
+  const result: Cue[] = [];
+
+  for (let start = 0; start < cues.length;) {
+    const source = sourceOf(cues[start]);
+    let end = start + 1;
+    while (end < cues.length && sourceOf(cues[end]) === source) end++;
+    const group = cues.slice(start, end);
+
+    const texts = group.map(cue => cue.text.split(/\s+/).filter(Boolean).join(' '));
+    const translations = source === target ? texts : await translator.translate(texts, source, target);
+    if (translations.length !== group.length) {
+      throw new Error(`The ${translator.name} translator returned ${translations.length} texts for ${group.length} cues`);
+    }
+
+    group.forEach((cue, index) => {
+      const { language: _cueLanguage, ...rest } = cue;
+      result.push({ ...rest, text: wrapText(translations[index], maxCharsPerLine, target).join('\n') });
+    });
+    start = end;
+  }
+
+  return result;
+}
@@ -1,232 +1,31 @@
 import path from 'path';
-import fs from 'fs-extra';
-import { config } from './config';
+import { config, Config } from './config';
+import { identifyLanguage, describeIdentification } from './languageId';
+import { parseTimestamp } from './subtitles';
 
-// Language detection packages
+// Language detection packages, loaded on first use so importing this module has no side effects
 let franc: any;
-try {
-  const francModule = require('franc');
-  franc = francModule.default || francModule;
-} catch (error) {
-  console.log('📦 franc package not installed. Run: npm install franc');
-}
+let francLoaded = false;
 
-/**
- * Post-processes subtitle files to combine individual characters into word groups
- * @param filePath Path to the subtitle file
- * @param minWordsPerLine Minimum number of words per line (default 5)
- */
-export async function postProcessSubtitles(filePath: string, minWordsPerLine: number = 5): Promise<void> {
-  // Only process certain subtitle formats
-  const ext = path.extname(filePath).toLowerCase();
-  if (!['.srt', '.vtt'].includes(ext)) {
-    return;
-  }
-  
-  try {
-    // Read the subtitle file
-    const content = await fs.readFile(filePath, 'utf8');
-    
-    // Process based on file type
-    let processedContent: string;
-    if (ext === '.srt') {
-      processedContent = processSrtFile(content, minWordsPerLine);
-      
-      // Apply deduplication if enabled
-      if (config.deduplicateSubtitles) {
-        processedContent = deduplicateSubtitles(processedContent, config.maxDuplicates);
-      }
-    } else if (ext === '.vtt') {
-      processedContent = processVttFile(content, minWordsPerLine);
-      
-      // Apply deduplication if enabled
-      if (config.deduplicateSubtitles) {
-        processedContent = deduplicateSubtitles(processedContent, config.maxDuplicates);
-      }
-    } else {
-      return;
-    }
-    
-    // Write processed content back to file
-    await fs.writeFile(filePath, processedContent, 'utf8');
-    console.log(`📝 Post-processed subtitle file: ${path.basename(filePath)}`);
-  } catch (error) {
-    console.error(`❌ Error post-processing subtitle file: ${filePath}`, error);
-  }
-}
-
-/**
- * Process SRT subtitle file to combine characters into proper word groups
- */
-function processSrtFile(content: string, minWordsPerLine: number): string {
-  // Split by subtitle entries (double newline)
-  let entries = content.split('\r\n\r\n').filter(Boolean);
-  if (entries.length <= 1) {
-    entries = content.split('\n\n').filter(Boolean);
-  }
-  
-  let currentGroup: string[] = [];
-  let currentTimestamp = '';
-  let currentIndex = 1;
-  let result: string[] = [];
-  
-  for (let i = 0; i < entries.length; i++) {
-    const entry = entries[i];
-    const lines = entry.split('\n').filter(Boolean);
-    
-    if (lines.length < 2) continue;
-    
-    const indexLine = lines[0];
-    const timestampLine = lines[1];
-    const textLine = lines.slice(2).join(' ').trim();
-    
-    // If this is a single character or very short text, add to current group
-    if (textLine.length <= 3 || countWords(textLine) < minWordsPerLine) {
-      if (currentGroup.length === 0) {
-        currentTimestamp = timestampLine;
-      }
-      currentGroup.push(textLine);
-    } else {
-      // This entry already has enough words, keep it as is
-      if (currentGroup.length > 0) {
-        // Add the previous group first
-        result.push(`${currentIndex}\n${currentTimestamp}\n${currentGroup.join(' ')}`);
-        currentIndex++;
-        currentGroup = [];
-      }
-      
-      // Then add this complete entry
-      result.push(`${currentIndex}\n${timestampLine}\n${textLine}`);
-      currentIndex++;
+function loadFranc(): any {
+  if (!francLoaded) {
+    francLoaded = true;
+    try {
+      const francModule = require('franc');
+      franc = francModule.default || francModule;
+    } catch (error) {
+      console.log('📦 franc package not installed. Run: npm install franc');
     }
   }
-  
-  // Add any remaining group
-  if (currentGroup.length > 0) {
-    result.push(`${currentIndex}\n${currentTimestamp}\n${currentGroup.join(' ')}`);
-  }
-  
-  return result.join('\n\n') + '\n\n';
+  return franc;
 }
 
-/**
- * Process VTT subtitle file to combine characters into proper word groups
- */
-function processVttFile(content: string, minWordsPerLine: number): string {
-  // For VTT, first line is "WEBVTT" - preserve it
-  const vttHeader = content.split('\n')[0];
-  
-  // Rest is similar to SRT
-  const parts = content.split('\n\n').slice(1).filter(Boolean);
-  
-  let currentGroup: string[] = [];
-  let currentTimestamp = '';
-  let result: string[] = [vttHeader];
-  
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i];
-    const lines = part.split('\n').filter(Boolean);
-    
-    if (lines.length < 2) continue;
-    
-    const timestampLine = lines[0];
-    const textLine = lines.slice(1).join(' ').trim();
-    
-    // If this is a single character or very short text, add to current group
-    if (textLine.length <= 3 || countWords(textLine) < minWordsPerLine) {
-      if (currentGroup.length === 0) {
-        currentTimestamp = timestampLine;
-      }
-      currentGroup.push(textLine);
-    } else {
-      // This entry already has enough words, keep it as is
-      if (currentGroup.length > 0) {
-        // Add the previous group first
-        result.push(`${currentTimestamp}\n${currentGroup.join(' ')}`);
-        currentGroup = [];
-      }
-      
-      // Then add this complete entry
-      result.push(`${timestampLine}\n${textLine}`);
-    }
-  }
-  
-  // Add any remaining group
-  if (currentGroup.length > 0) {
-    result.push(`${currentTimestamp}\n${currentGroup.join(' ')}`);
-  }
-  
-  return result.join('\n\n') + '\n\n';
-}
-
-/**
- * Count the number of words in a string
- */
-function countWords(text: string): number {
-  // For Arabic text, count words by splitting on spaces and filtering empty strings
-  return text.split(/\s+/).filter(Boolean).length;
-}
-
-/**
- * Deduplicate repeated subtitle lines
- * @param content The subtitle content to deduplicate
- * @param maxDuplicates Maximum number of allowed consecutive duplicates
- */
-export function deduplicateSubtitles(content: string, maxDuplicates: number = 1): string {
-  // Determine if it's SRT or VTT format
-  const isSrt = content.includes('\r\n\r\n') || content.includes('\n\n');
-  const separator = content.includes('\r\n\r\n') ? '\r\n\r\n' : '\n\n';
-  
-  // Split into subtitle entries
-  const entries = content.split(separator).filter(Boolean);
-  const result: string[] = [];
-  
-  const seenTexts = new Map<string, number>();
-  let lastTextKey = '';
-  
-  for (const entry of entries) {
-    const lines = entry.split('\n').filter(Boolean);
-    
-    if (lines.length < 2) continue;
-    
-    // Extract index/timestamp and text parts
-    let indexOrTimestamp, text;
-    
-    if (isSrt) {
-      // For SRT: first line is index, second is timestamp, rest is text
-      indexOrTimestamp = lines.slice(0, 2).join('\n');
-      text = lines.slice(2).join(' ').trim();
-    } else {
-      // For VTT: first line is timestamp, rest is text
-      indexOrTimestamp = lines[0];
-      text = lines.slice(1).join(' ').trim();
-    }
-    
-    // Create a key for comparing texts (normalize case, trim whitespace)
-    const textKey = text.toLowerCase().trim();
-    
-    // Skip exact duplicates beyond the allowed maximum
-    if (textKey === lastTextKey) {
-      const count = seenTexts.get(textKey) || 0;
-      if (count >= maxDuplicates) {
-        continue; // Skip this duplicate
-      }
-      seenTexts.set(textKey, count + 1);
-    } else {
-      // New text
-      seenTexts.set(textKey, 1);
-      lastTextKey = textKey;
-    }
-    
-    // Add to result
-    if (isSrt) {
-      result.push(`${indexOrTimestamp}\n${text}`);
-    } else {
-      result.push(`${indexOrTimestamp}\n${text}`);
-    }
-  }
-  
-  return result.join(separator) + separator;
+// A line of whisper.cpp output, times in milliseconds
+export interface Segment {
+  start: number;
+  end: number;
+  text: string;
+  language?: string; // Set in multi-language transcripts
 }
 
 /**
@@ -272,21 +71,58 @@ export function createFilenameWithId(
   return `${newBaseName}${newExtension}`;
 }
 
+/**
+ * Resolves the directory generated files for a video should be written to.
+ * The folder structure below videosDir is mirrored under outputDir.
+ * @param videoPath Path to the source video
+ * @returns The output directory for this video
+ */
+export function resolveOutputDir(videoPath: string, videoConfig: Config = config): string {
+  const relativeDir = path.relative(videoConfig.videosDir, path.dirname(videoPath));
+
+  // Videos outside videosDir are written to the root of outputDir
+  if (relativeDir.startsWith('..') || path.isAbsolute(relativeDir)) {
+    return videoConfig.outputDir;
+  }
+
+  return path.join(videoConfig.outputDir, relativeDir);
+}
+
+/**
+ * Parses the transcript whisper.cpp prints, one "[00:00:01.000 --> 00:00:04.000]  text" line per segment
+ * @param output The output returned by nodewhisper
+ * @returns The segments in order, lines without timestamps are ignored
+ */
+export function parseTranscript(output: string): Segment[] {
+  const segments: Segment[] = [];
+  const linePattern = /^\s*\[(\d+:\d{2}:\d{2}[.,]\d{3})\s*-->\s*(\d+:\d{2}:\d{2}[.,]\d{3})\]\s*(.*)$/;
+  
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(linePattern);
+    if (match && match[3].trim()) {
+      segments.push({ start: parseTimestamp(match[1]), end: parseTimestamp(match[2]), text: match[3].trim() });
+    }
+  }
+  
+  return segments;
+}
+
 /**
  * Detects the language of a video based on its filename and the language map
  * @param filename The video filename
+ * @param videoConfig Configuration of the video
  * @returns The detected language code or null if no match found
  */
-export function detectLanguage(filename: string): string | null {
+export function detectLanguage(filename: string, videoConfig: Config = config): string | null {
   // First, check for default language if set
-  if (!config.detectLanguage) {
-    return config.defaultLanguage;
+  if (!videoConfig.detectLanguage) {
+    return videoConfig.defaultLanguage;
   }
   
   // Look through the language map for matches in the filename
   const lowercaseFilename = filename.toLowerCase();
   
-  for (const [pattern, language] of Object.entries(config.languageMap)) {
+  for (const [pattern, language] of Object.entries(videoConfig.languageMap)) {
     if (lowercaseFilename.includes(pattern.toLowerCase())) {
       console.log(`🔍 Language detected for ${filename}: ${language} (matched pattern: ${pattern})`);
       return language;
@@ -300,23 +136,24 @@ export function detectLanguage(filename: string): string | null {
   }
   
   // If no match found, return default language
-  return config.defaultLanguage;
+  return videoConfig.defaultLanguage;
 }
 
 /**
  * Enhanced language detection using multiple methods
  * @param filename The video filename
+ * @param videoConfig Configuration of the video
  * @returns The detected language code or 'auto' for Whisper auto-detection
  */
-export function detectLanguageEnhanced(filename: string): string | null {
+export function detectLanguageEnhanced(filename: string, videoConfig: Config = config): string | null {
   // If auto-detection is disabled, use manual methods
-  if (!config.detectLanguage) {
-    return config.defaultLanguage;
+  if (!videoConfig.detectLanguage) {
+    return videoConfig.defaultLanguage;
   }
 
   // Method 1: Check language map patterns
   const lowercaseFilename = filename.toLowerCase();
-  for (const [pattern, language] of Object.entries(config.languageMap)) {
+  for (const [pattern, language] of Object.entries(videoConfig.languageMap)) {
     if (lowercaseFilename.includes(pattern.toLowerCase())) {
       console.log(`🔍 Language detected for ${filename}: ${language} (pattern match: ${pattern})`);
       return language;
@@ -353,16 +190,31 @@ export function detectLanguageEnhanced(filename: string): string | null {
  * Advanced automatic language detection using npm packages and multiple methods
  * @param filename The video filename  
  * @param audioPath Optional path to audio file for content-based detection
+ * @param videoConfig Configuration of the video
  * @returns The detected language code or 'auto' for Whisper auto-detection
  */
-export async function detectLanguageAuto(filename: string, audioPath?: string): Promise<string | null> {
-  if (!config.detectLanguage) {
-    return config.defaultLanguage;
+export async function detectLanguageAuto(filename: string, audioPath?: string, videoConfig: Config = config): Promise<string | null> {
+  if (!videoConfig.detectLanguage) {
+    return videoConfig.defaultLanguage;
+  }
+
+  // Method 0: Whisper language identification on samples of the audio
+  if (audioPath) {
+    try {
+      const identification = await identifyLanguage(audioPath, videoConfig);
+      if (identification.language) {
+        console.log(`🎧 Language identified: ${describeIdentification(identification)}`);
+        return identification.language;
+      }
+      console.log(`🎧 Language not certain enough: ${describeIdentification(identification)}`);
+    } catch (error) {
+      console.log('⚠️ Error in audio language identification:', error instanceof Error ? error.message : 'Unknown error');
+    }
   }
 
   // Method 1: Pattern-based detection (existing language map)
   const lowercaseFilename = filename.toLowerCase();
-  for (const [pattern, language] of Object.entries(config.languageMap)) {
+  for (const [pattern, language] of Object.entries(videoConfig.languageMap)) {
     if (lowercaseFilename.includes(pattern.toLowerCase())) {
       console.log(`🔍 Language detected: ${language} (pattern: ${pattern})`);
       return language;
@@ -377,6 +229,7 @@ export async function detectLanguageAuto(filename: string, audioPath?: string):
   }
 
   // Method 3: Use franc package for filename text analysis
+  const franc = loadFranc();
   if (franc) {
     try {
       // Extract readable text from filename (remove extensions, IDs, etc.)
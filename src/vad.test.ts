@@ -0,0 +1,46 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Cue } from './subtitles';
+import { SpeechTimeline, remapCues, toOriginalTime } from './vad';
+
+// Three regions of speech joined with 400 ms of silence between them:
+// 1-3 s at 0-2 s, 8-9 s at 2.4-3.4 s and 15-18 s at 3.8-6.8 s
+const timeline: SpeechTimeline = {
+  durationMs: 20_000,
+  regions: [{ start: 1000, end: 3000 }, { start: 8000, end: 9000 }, { start: 15_000, end: 18_000 }],
+  offsets: [0, 2400, 3800],
+};
+
+function cue(start: number, end: number, text: string): Cue {
+  return { id: null, start, end, text, settings: '', notes: [] };
+}
+
+test('maps times in the speech back into their regions', () => {
+  assert.equal(toOriginalTime(timeline, 500, 'start'), 1500);
+  assert.equal(toOriginalTime(timeline, 2000, 'end'), 3000);
+  assert.equal(toOriginalTime(timeline, 2600, 'start'), 8200);
+  assert.equal(toOriginalTime(timeline, 6800, 'end'), 18_000);
+});
+
+test('maps times in the joining silence to the next region for starts, the previous for ends', () => {
+  assert.equal(toOriginalTime(timeline, 2200, 'start'), 8000);
+  assert.equal(toOriginalTime(timeline, 2200, 'end'), 3000);
+  // After the last region there is no next one
+  assert.equal(toOriginalTime(timeline, 7000, 'start'), 18_000);
+});
+
+test('remaps cues across removed silences', () => {
+  assert.deepEqual(remapCues([
+    cue(500, 1800, 'We started the engine'),
+    cue(1800, 2600, 'and drove off'), // Spans the silence removed between 3 s and 8 s
+    cue(3000, 4000, 'into the night'),
+  ], timeline), [
+    cue(1500, 2800, 'We started the engine'),
+    cue(2800, 8200, 'and drove off'),
+    cue(8600, 15_200, 'into the night'),
+  ]);
+});
+
+test('keeps the length of a cue inside a joining silence', () => {
+  assert.deepEqual(remapCues([cue(2100, 2300, 'Hm')], timeline), [cue(8000, 8200, 'Hm')]);
+});
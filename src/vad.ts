@@ -0,0 +1,150 @@
+import { Config } from './config';
+import { Cue } from './subtitles';
+import { readFrameLevels, writeWavRanges } from './wav';
+
+// Settings of the voice activity detection
+export type VadOptions = Pick<Config, 'vadThresholdDb' | 'vadPaddingMs' | 'vadMinSilenceMs' | 'vadMinSpeechMs'>;
+
+// A stretch of speech on the timeline of the original audio, in milliseconds
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+// Where the speech regions are in the speech-only audio, to map times back
+export interface SpeechTimeline {
+  durationMs: number;      // Length of the original audio
+  regions: SpeechRegion[];
+  offsets: number[];       // Start of each region in the speech-only audio
+}
+
+// How much of a file is speech, for the run report
+export interface SpeechSummary {
+  durationMs: number;
+  speechMs: number;
+}
+
+// Energy is measured over 30 ms frames
+const FRAME_MS = 30;
+
+// Frames quieter than this are never speech, however quiet the recording is
+const MIN_SPEECH_DBFS = -55;
+
+// The noise floor is the level this share of the frames stays below
+const NOISE_FLOOR_PERCENTILE = 0.1;
+
+// Silence between the regions in the speech-only audio, so Whisper does not run sentences together
+const JOIN_GAP_MS = 400;
+
+/**
+ * Find the speech in a 16 kHz WAV file: frames louder than the noise floor
+ * of the recording by vadThresholdDb are speech. Regions shorter than
+ * vadMinSpeechMs are dropped as clicks, the rest are padded by vadPaddingMs
+ * on both sides, and regions less than vadMinSilenceMs apart are merged.
+ * @param wavPath The WAV file, 16-bit mono PCM
+ * @param options Threshold, padding and minimum lengths
+ * @returns The speech regions in order, and the length of the audio
+ */
+export async function detectSpeech(wavPath: string, options: VadOptions): Promise<{ regions: SpeechRegion[]; durationMs: number }> {
+  const { levels, durationMs } = await readFrameLevels(wavPath, FRAME_MS);
+  if (levels.length === 0) {
+    return { regions: [], durationMs };
+  }
+
+  const sorted = [...levels].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor((sorted.length - 1) * NOISE_FLOOR_PERCENTILE)];
+  const threshold = Math.max(noiseFloor + options.vadThresholdDb, MIN_SPEECH_DBFS);
+
+  // Consecutive speech frames, dropping those too short to be words
+  const raw: SpeechRegion[] = [];
+  let start = -1;
+  levels.forEach((level, frame) => {
+    if (level >= threshold && start < 0) {
+      start = frame;
+    } else if (level < threshold && start >= 0) {
+      raw.push({ start: start * FRAME_MS, end: frame * FRAME_MS });
+      start = -1;
+    }
+  });
+  if (start >= 0) {
+    raw.push({ start: start * FRAME_MS, end: durationMs });
+  }
+
+  const regions: SpeechRegion[] = [];
+  for (const region of raw.filter(candidate => candidate.end - candidate.start >= options.vadMinSpeechMs)) {
+    const padded = {
+      start: Math.max(0, region.start - options.vadPaddingMs),
+      end: Math.min(durationMs, region.end + options.vadPaddingMs),
+    };
+    const previous = regions[regions.length - 1];
+    if (previous && padded.start - previous.end < options.vadMinSilenceMs) {
+      previous.end = Math.max(previous.end, padded.end);
+    } else {
+      regions.push(padded);
+    }
+  }
+
+  return { regions, durationMs };
+}
+
+/**
+ * Write the speech regions of a WAV file one after another, with a short
+ * silence between them, into a new WAV file for Whisper
+ * @param wavPath The WAV file the regions were found in
+ * @param regions The regions from detectSpeech
+ * @param outputPath Where to write the speech-only WAV
+ * @param durationMs Length of the original audio
+ * @returns The timeline to map times in the speech-only audio back with
+ */
+export async function writeSpeechAudio(
+  wavPath: string,
+  regions: SpeechRegion[],
+  outputPath: string,
+  durationMs: number
+): Promise<SpeechTimeline> {
+  const offsets = await writeWavRanges(wavPath, regions, outputPath, JOIN_GAP_MS);
+  return { durationMs, regions, offsets };
+}
+
+/**
+ * Map a time in the speech-only audio back to the original audio. Times in
+ * the silence between two regions belong to the next region when they start
+ * a cue, and to the previous one when they end it.
+ * @param timeline The timeline from writeSpeechAudio
+ * @param ms Time in the speech-only audio
+ * @param edge Whether the time starts or ends a cue
+ */
+export function toOriginalTime(timeline: SpeechTimeline, ms: number, edge: 'start' | 'end'): number {
+  const { regions, offsets } = timeline;
+  let index = 0;
+  while (index + 1 < offsets.length && offsets[index + 1] <= ms) index++;
+
+  const region = regions[index];
+  const regionEnd = offsets[index] + (region.end - region.start);
+  if (ms <= regionEnd) {
+    return region.start + Math.max(0, ms - offsets[index]);
+  }
+  return edge === 'start' && index + 1 < regions.length ? regions[index + 1].start : region.end;
+}
+
+/**
+ * Move cues transcribed from the speech-only audio to the original timeline
+ * @param cues The cues of the speech-only audio
+ * @param timeline The timeline from writeSpeechAudio
+ */
+export function remapCues(cues: Cue[], timeline: SpeechTimeline): Cue[] {
+  return cues.map(cue => {
+    const start = toOriginalTime(timeline, cue.start, 'start');
+    const end = toOriginalTime(timeline, cue.end, 'end');
+    // A cue inside a single gap keeps its length rather than ending before it starts
+    return { ...cue, start, end: end > start ? end : Math.min(timeline.durationMs, start + (cue.end - cue.start)) };
+  });
+}
+
+/**
+ * How much of the audio is speech
+ */
+export function summarizeSpeech(timeline: SpeechTimeline): SpeechSummary {
+  const speechMs = timeline.regions.reduce((sum, region) => sum + region.end - region.start, 0);
+  return { durationMs: timeline.durationMs, speechMs };
+}
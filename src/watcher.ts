@@ -0,0 +1,162 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { config } from './config';
+import { findVideos, runBatch, requestStop } from './pipeline';
+import { getErrorMessage } from './retry';
+
+export interface WatchOptions {
+  pollIntervalMs: number;    // How often the videos directory is scanned
+  stableMs: number;          // How long size and modification time must stay unchanged
+  parallel: boolean;         // Use the parallel queue even with maxConcurrentProcesses = 1
+  doneDir: string | null;    // Move processed sources here, null to leave them in place
+  failedDir: string | null;  // Move sources that failed for good here, null to leave them in place
+  signal: AbortSignal;       // Aborting stops watching once in-flight videos are finished
+}
+
+// Size and modification time, a file is ready once these stop changing
+interface FileState {
+  signature: string;
+  since: number;
+}
+
+function isInside(filePath: string, dir: string | null): boolean {
+  if (!dir) return false;
+  const relative = path.relative(dir, filePath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolves after the given time, or as soon as the signal is aborted
+ */
+function waitOrAbort(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Move a source video into the done or failed folder, keeping its path below videosDir
+ */
+async function moveSource(videoPath: string, targetDir: string): Promise<void> {
+  const relative = path.relative(config.videosDir, videoPath);
+  const target = relative.startsWith('..') || path.isAbsolute(relative)
+    ? path.join(targetDir, path.basename(videoPath))
+    : path.join(targetDir, relative);
+
+  try {
+    await fs.move(videoPath, target, { overwrite: true });
+    console.log(`📦 Moved ${path.basename(videoPath)} to ${path.dirname(target)}`);
+  } catch (error) {
+    console.error(`❌ Could not move ${path.basename(videoPath)}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Scan the videos directory and return the files that are new or changed and
+ * whose size has been stable long enough
+ * @param seen Files already handed to the pipeline, by signature
+ * @param changing Files waiting to become stable
+ * @param options Watch options
+ */
+async function findReadyVideos(
+  seen: Map<string, string>,
+  changing: Map<string, FileState>,
+  options: WatchOptions
+): Promise<string[]> {
+  const now = Date.now();
+  const ready: string[] = [];
+  const videoPaths = (await findVideos([config.videosDir]))
+    .filter(videoPath => !isInside(videoPath, options.doneDir) && !isInside(videoPath, options.failedDir));
+  const present = new Set(videoPaths);
+
+  for (const videoPath of videoPaths) {
+    let signature: string;
+    try {
+      const stats = await fs.stat(videoPath);
+      signature = `${stats.size}:${stats.mtimeMs}`;
+    } catch (error) {
+      continue; // Deleted or moved since the scan
+    }
+
+    if (seen.get(videoPath) === signature) continue;
+
+    const state = changing.get(videoPath);
+    if (!state || state.signature !== signature) {
+      // New, or still being written
+      changing.set(videoPath, { signature, since: now });
+    } else if (now - state.since >= options.stableMs) {
+      changing.delete(videoPath);
+      seen.set(videoPath, signature);
+      ready.push(videoPath);
+    }
+  }
+
+  // Forget files that disappeared
+  for (const videoPath of [...seen.keys(), ...changing.keys()]) {
+    if (!present.has(videoPath)) {
+      seen.delete(videoPath);
+      changing.delete(videoPath);
+    }
+  }
+
+  return ready;
+}
+
+/**
+ * Watch the videos directory and transcribe new or modified videos once they
+ * have finished copying. Runs until options.signal is aborted; videos being
+ * processed at that point are finished first.
+ * @param options Watch options
+ */
+export async function watchVideos(options: WatchOptions): Promise<void> {
+  const seen = new Map<string, string>();
+  const changing = new Map<string, FileState>();
+  const onAbort = () => {
+    console.log('\n🛑 Stopping: waiting for videos in progress to finish (press Ctrl+C again to force)');
+    requestStop();
+  };
+  options.signal.addEventListener('abort', onAbort, { once: true });
+
+  await fs.ensureDir(config.videosDir);
+  console.log(`👀 Watching ${config.videosDir} (scan every ${options.pollIntervalMs / 1000}s, ` +
+    `files must be unchanged for ${options.stableMs / 1000}s)`);
+
+  while (!options.signal.aborted) {
+    try {
+      const ready = await findReadyVideos(seen, changing, options);
+
+      if (ready.length > 0 && !options.signal.aborted) {
+        console.log(`📥 ${ready.length} new or changed video(s) ready`);
+        // Up-to-date videos are skipped by the manifest as in a normal run
+        const report = await runBatch({ inputs: ready, force: false, parallel: options.parallel });
+
+        for (const job of report ? report.jobs : []) {
+          if (!ready.includes(job.videoPath)) continue;
+
+          const targetDir = job.status === 'done' ? options.doneDir : job.status === 'failed' ? options.failedDir : null;
+          if (targetDir) {
+            await moveSource(job.videoPath, targetDir);
+            seen.delete(job.videoPath);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Error while watching ${config.videosDir}: ${getErrorMessage(error)}`);
+    }
+
+    await waitOrAbort(options.pollIntervalMs, options.signal);
+  }
+
+  options.signal.removeEventListener('abort', onAbort);
+  console.log('👋 Stopped watching');
+}
@@ -0,0 +1,176 @@
+import fs from 'fs-extra';
+
+// Where the samples of a 16-bit mono PCM WAV file are
+export interface WavLayout {
+  sampleRate: number;
+  dataOffset: number; // Byte offset of the samples
+  dataBytes: number;
+}
+
+// A stretch of a WAV file, in milliseconds
+export interface WavRange {
+  start: number;
+  end: number;
+}
+
+// Bytes read from a WAV file at once
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Find the format and the samples of a 16-bit mono PCM WAV file, as written
+ * by extractAudio
+ * @param fd The open WAV file
+ * @param wavPath Its path, for errors
+ */
+export async function readWavLayout(fd: number, wavPath: string): Promise<WavLayout> {
+  const { size } = await fs.fstat(fd);
+  const header = Buffer.alloc(12);
+  await fs.read(fd, header, 0, 12, 0);
+  if (header.toString('ascii', 0, 4) !== 'RIFF' || header.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error(`${wavPath} is not a WAV file`);
+  }
+
+  let sampleRate = 0;
+  let position = 12;
+  const chunkHeader = Buffer.alloc(8);
+  while (position + 8 <= size) {
+    await fs.read(fd, chunkHeader, 0, 8, position);
+    const id = chunkHeader.toString('ascii', 0, 4);
+    const length = chunkHeader.readUInt32LE(4);
+
+    if (id === 'fmt ') {
+      const format = Buffer.alloc(16);
+      await fs.read(fd, format, 0, 16, position + 8);
+      const channels = format.readUInt16LE(2);
+      const bitsPerSample = format.readUInt16LE(14);
+      if (format.readUInt16LE(0) !== 1 || channels !== 1 || bitsPerSample !== 16) {
+        throw new Error(`${wavPath} is not 16-bit mono PCM audio`);
+      }
+      sampleRate = format.readUInt32LE(4);
+    } else if (id === 'data') {
+      if (!sampleRate) break;
+      // ffmpeg leaves the length unset when it cannot seek back, the data then runs to the end
+      const dataBytes = length === 0 || length === 0xffffffff ? size - position - 8 : Math.min(length, size - position - 8);
+      return { sampleRate, dataOffset: position + 8, dataBytes: dataBytes - (dataBytes % 2) };
+    }
+    position += 8 + length + (length % 2);
+  }
+
+  throw new Error(`${wavPath} has no audio samples`);
+}
+
+/**
+ * The length of a WAV file
+ * @param wavPath The WAV file, 16-bit mono PCM
+ * @returns The length of the audio in milliseconds
+ */
+export async function readWavDuration(wavPath: string): Promise<number> {
+  const fd = await fs.open(wavPath, 'r');
+  try {
+    const layout = await readWavLayout(fd, wavPath);
+    return Math.round(layout.dataBytes / 2 / layout.sampleRate * 1000);
+  } finally {
+    await fs.close(fd);
+  }
+}
+
+/**
+ * Measure the level of every frame of a WAV file
+ * @param wavPath The WAV file, 16-bit mono PCM
+ * @param frameMs Length of a frame
+ * @returns The level of each frame in dBFS, and the length of the audio in milliseconds
+ */
+export async function readFrameLevels(wavPath: string, frameMs: number): Promise<{ levels: number[]; durationMs: number }> {
+  const fd = await fs.open(wavPath, 'r');
+  try {
+    const layout = await readWavLayout(fd, wavPath);
+    const frameBytes = Math.round(layout.sampleRate * frameMs / 1000) * 2;
+    const chunkBytes = READ_CHUNK_BYTES - (READ_CHUNK_BYTES % frameBytes);
+    const buffer = Buffer.alloc(chunkBytes);
+    const levels: number[] = [];
+
+    for (let offset = 0; offset < layout.dataBytes; offset += chunkBytes) {
+      const { bytesRead } = await fs.read(fd, buffer, 0, Math.min(chunkBytes, layout.dataBytes - offset), layout.dataOffset + offset);
+      for (let frame = 0; frame + 2 <= bytesRead; frame += frameBytes) {
+        const end = Math.min(frame + frameBytes, bytesRead);
+        let sum = 0;
+        for (let i = frame; i + 2 <= end; i += 2) {
+          const sample = buffer.readInt16LE(i) / 32768;
+          sum += sample * sample;
+        }
+        const rms = Math.sqrt(sum / ((end - frame) / 2));
+        levels.push(rms > 0 ? 20 * Math.log10(rms) : -100);
+      }
+    }
+
+    return { levels, durationMs: Math.round(layout.dataBytes / 2 / layout.sampleRate * 1000) };
+  } finally {
+    await fs.close(fd);
+  }
+}
+
+/**
+ * Write stretches of a WAV file one after another into a new WAV file
+ * @param wavPath The WAV file, 16-bit mono PCM
+ * @param ranges The stretches to copy, in order
+ * @param outputPath Where to write the new WAV file
+ * @param gapMs Silence written between two stretches
+ * @returns Where each stretch starts in the new file, in milliseconds
+ */
+export async function writeWavRanges(wavPath: string, ranges: WavRange[], outputPath: string, gapMs = 0): Promise<number[]> {
+  const input = await fs.open(wavPath, 'r');
+  const output = await fs.open(outputPath, 'w');
+  const offsets: number[] = [];
+
+  try {
+    const layout = await readWavLayout(input, wavPath);
+    const bytesAt = (ms: number) => Math.min(layout.dataBytes, Math.round(ms * layout.sampleRate / 1000) * 2);
+    const gap = Buffer.alloc(Math.round(gapMs * layout.sampleRate / 1000) * 2);
+    const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+
+    let written = 0;
+    for (const [index, range] of ranges.entries()) {
+      if (index > 0 && gap.length > 0) {
+        await fs.write(output, gap, 0, gap.length, 44 + written);
+        written += gap.length;
+      }
+      offsets.push(Math.round(written / 2 / layout.sampleRate * 1000));
+
+      for (let position = bytesAt(range.start); position < bytesAt(range.end);) {
+        const { bytesRead } = await fs.read(input, buffer, 0, Math.min(buffer.length, bytesAt(range.end) - position), layout.dataOffset + position);
+        if (bytesRead === 0) break;
+        await fs.write(output, buffer, 0, bytesRead, 44 + written);
+        written += bytesRead;
+        position += bytesRead;
+      }
+    }
+
+    await fs.write(output, createWavHeader(written, layout.sampleRate), 0, 44, 0);
+  } finally {
+    await fs.close(input);
+    await fs.close(output);
+  }
+
+  return offsets;
+}
+
+/**
+ * The 44 byte header of a 16-bit mono PCM WAV file
+ */
+function createWavHeader(dataBytes: number, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);              // PCM
+  header.writeUInt16LE(1, 22);              // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // Bytes per second
+  header.writeUInt16LE(2, 32);              // Bytes per sample
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
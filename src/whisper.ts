@@ -0,0 +1,332 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { spawn } from 'child_process';
+import { Segment, parseTranscript } from './utils';
+import { readWavDuration } from './wav';
+
+// whisper.cpp is started here rather than through nodewhisper(): nodejs-whisper
+// changes the working directory of the whole process to run it, and passes the
+// file paths to a shell. Only the whisper.cpp sources it ships are used.
+
+// The whisper.cpp sources and download scripts that come with nodejs-whisper
+export const WHISPER_CPP_PATH = path.join(path.dirname(require.resolve('nodejs-whisper')), '..', 'cpp', 'whisper.cpp');
+
+// The ggml file of each model nodejs-whisper can download, in WHISPER_CPP_PATH/models
+const MODEL_FILES: Record<string, string> = {
+  tiny: 'ggml-tiny.bin',
+  'tiny.en': 'ggml-tiny.en.bin',
+  base: 'ggml-base.bin',
+  'base.en': 'ggml-base.en.bin',
+  small: 'ggml-small.bin',
+  'small.en': 'ggml-small.en.bin',
+  medium: 'ggml-medium.bin',
+  'medium.en': 'ggml-medium.en.bin',
+  'large-v1': 'ggml-large-v1.bin',
+  large: 'ggml-large.bin',
+  'large-v3-turbo': 'ggml-large-v3-turbo.bin',
+};
+
+// What whisper.cpp writes and how it transcribes
+export interface WhisperOptions {
+  outputInSrt?: boolean;
+  outputInVtt?: boolean;
+  outputInJson?: boolean;
+  outputInText?: boolean;
+  outputInWords?: boolean;
+  outputInLrc?: boolean;
+  outputInCsv?: boolean;
+  wordTimestamps?: boolean;     // One word per segment
+  splitOnWord?: boolean;
+  translateToEnglish?: boolean;
+  language?: string;            // Whisper language code; detected by whisper.cpp if unset or 'auto'
+}
+
+// One run of whisper.cpp on a 16 kHz WAV file
+export interface WhisperRun {
+  audioPath: string;
+  outputPrefix?: string; // Output files are written as outputPrefix + extension; next to the WAV ("name.wav.srt") if unset
+  modelName: string;
+  options: WhisperOptions;
+}
+
+// whisper-cli flags of the boolean options
+const OPTION_FLAGS: [keyof WhisperOptions, string][] = [
+  ['outputInSrt', '-osrt'],
+  ['outputInVtt', '-ovtt'],
+  ['outputInJson', '-oj'],
+  ['outputInText', '-otxt'],
+  ['outputInWords', '-owts'],
+  ['outputInLrc', '-olrc'],
+  ['outputInCsv', '-ocsv'],
+  ['splitOnWord', '-sow'],
+  ['translateToEnglish', '-tr'],
+];
+
+export interface WhisperRunHandlers {
+  onStart?: (pid: number) => void;         // whisper.cpp started, in a process group of its own
+  onSegment?: (segment: Segment) => void;  // A segment as soon as whisper.cpp prints it
+  onProgress?: (percent: number) => void;  // Share of the audio transcribed so far
+}
+
+// The last lines of whisper.cpp's error output are enough to explain a failure
+const ERROR_LINES = 5;
+
+// whisper.cpp processes still running. They run in process groups of their
+// own, so they are killed here when this process ends before them.
+const runningProcesses = new Set<number>();
+
+// Models prepared by this process; one preparation runs at a time
+const preparedModels = new Map<string, Promise<void>>();
+let lastPreparation: Promise<unknown> = Promise.resolve();
+
+/**
+ * The model file of a Whisper model
+ * @returns Its path, whether it is downloaded or not; null if nodejs-whisper cannot download the model
+ */
+export function getModelPath(modelName: string): string | null {
+  const modelFile = MODEL_FILES[modelName];
+  return modelFile ? path.join(WHISPER_CPP_PATH, 'models', modelFile) : null;
+}
+
+/**
+ * Find the whisper-cli executable built by nodejs-whisper
+ * @returns Its path, or null if whisper.cpp is not built
+ */
+export function findWhisperExecutable(): string | null {
+  const execName = process.platform === 'win32' ? 'whisper-cli.exe' : 'whisper-cli';
+  const candidates = [
+    path.join(WHISPER_CPP_PATH, 'build', 'bin', execName),
+    path.join(WHISPER_CPP_PATH, 'build', 'bin', 'Release', execName),
+    path.join(WHISPER_CPP_PATH, 'build', 'bin', 'Debug', execName),
+    path.join(WHISPER_CPP_PATH, 'build', execName),
+    path.join(WHISPER_CPP_PATH, execName),
+  ];
+  return candidates.find(candidate => fs.existsSync(candidate)) || null;
+}
+
+/**
+ * Kill a whisper.cpp process
+ */
+export function killWhisper(pid: number): void {
+  try {
+    // whisper.cpp runs in a process group of its own, except on Windows
+    process.kill(process.platform === 'win32' ? pid : -pid, 'SIGKILL');
+  } catch (error) {
+    // It has exited already
+  }
+}
+
+function killRunningProcesses(): void {
+  runningProcesses.forEach(killWhisper);
+}
+
+/**
+ * End this process and its whisper.cpp processes on a signal, unless someone
+ * else handles the signal, like the CLI that lets runs finish on Ctrl+C
+ */
+function handleSignal(signal: NodeJS.Signals): void {
+  if (process.listenerCount(signal) > 1) return;
+  killRunningProcesses();
+  process.exit(128 + (os.constants.signals[signal] || 0));
+}
+
+const EXIT_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+// The handlers are only installed while whisper.cpp runs, so they never keep
+// the default signal behaviour from library users otherwise
+function trackProcess(pid: number): void {
+  if (runningProcesses.size === 0) {
+    process.on('exit', killRunningProcesses);
+    EXIT_SIGNALS.forEach(signal => process.on(signal, handleSignal));
+  }
+  runningProcesses.add(pid);
+}
+
+function untrackProcess(pid: number): void {
+  if (runningProcesses.delete(pid) && runningProcesses.size === 0) {
+    process.off('exit', killRunningProcesses);
+    EXIT_SIGNALS.forEach(signal => process.off(signal, handleSignal));
+  }
+}
+
+/**
+ * Run a command in a directory, failing with the end of its error output
+ */
+function runCommand(command: string, args: string[], cwd: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    // Windows runs the .cmd download script through its shell
+    const child = spawn(command, args, { cwd, stdio: ['ignore', 'inherit', 'pipe'], shell: process.platform === 'win32', windowsHide: true });
+    let stderr = '';
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (data: string) => {
+      stderr += data;
+    });
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        const lines = stderr.trim().split(/\r?\n/).slice(-ERROR_LINES).join('\n');
+        reject(new Error(`${command} ${args.join(' ')} failed${lines ? `:\n${lines}` : ` with exit code ${code}`}`));
+      }
+    });
+  });
+}
+
+/**
+ * Download a model with the script that comes with whisper.cpp
+ * @param modelName The Whisper model
+ * @returns false if the model was downloaded already
+ */
+export async function downloadModel(modelName: string): Promise<boolean> {
+  const modelPath = getModelPath(modelName);
+  if (!modelPath) {
+    throw new Error(`Model ${modelName} is not supported by nodejs-whisper`);
+  }
+  if (await fs.pathExists(modelPath)) {
+    return false;
+  }
+
+  const modelsDir = path.dirname(modelPath);
+  const script = process.platform === 'win32' ? 'download-ggml-model.cmd' : './download-ggml-model.sh';
+  if (process.platform !== 'win32') {
+    await fs.chmod(path.join(modelsDir, script), 0o755);
+  }
+  await runCommand(script, [modelName], modelsDir);
+  return true;
+}
+
+/**
+ * Download a model and build whisper.cpp if they are missing, once per model.
+ * Must run before the model is used; runWhisper does not prepare it.
+ * @param modelName The Whisper model
+ * @param withCuda Build whisper.cpp with CUDA support
+ */
+export function prepareWhisper(modelName: string, withCuda: boolean): Promise<void> {
+  let preparation = preparedModels.get(modelName);
+
+  if (!preparation) {
+    preparation = lastPreparation.catch(() => {}).then(async () => {
+      const modelPath = getModelPath(modelName);
+      if (modelPath && !(await fs.pathExists(modelPath))) {
+        console.log(`⬇️ Downloading model: ${modelName}`);
+      }
+      await downloadModel(modelName);
+
+      if (!findWhisperExecutable()) {
+        console.log('🔨 Building whisper.cpp');
+        await runCommand('cmake', ['-B', 'build', ...(withCuda ? ['-DGGML_CUDA=1'] : [])], WHISPER_CPP_PATH);
+        await runCommand('cmake', ['--build', 'build', '--config', 'Release'], WHISPER_CPP_PATH);
+      }
+    });
+    lastPreparation = preparation;
+    preparedModels.set(modelName, preparation);
+    // A failed download or build is tried again by the next video
+    preparation.catch(() => preparedModels.delete(modelName));
+  }
+
+  return preparation;
+}
+
+/**
+ * The whisper-cli arguments of a run
+ * @param run The WAV file, the output files and the options
+ * @param modelPath The model file
+ */
+function buildWhisperArgs(run: WhisperRun, modelPath: string): string[] {
+  const { options } = run;
+  const args = OPTION_FLAGS.filter(([option]) => options[option]).map(([, flag]) => flag);
+  if (options.wordTimestamps) {
+    args.push('-ml', '1');
+  }
+  args.push('-l', options.language || 'auto', '-m', modelPath, '-f', path.resolve(run.audioPath));
+  if (run.outputPrefix) {
+    args.push('-of', path.resolve(run.outputPrefix));
+  }
+  return args;
+}
+
+/**
+ * Transcribe a WAV file with whisper.cpp. The model and the executable must
+ * be prepared with prepareWhisper; this only starts whisper.cpp, so several
+ * runs can go on at once.
+ * @param run The WAV file, the output files, the model and the options
+ * @param handlers Called as whisper.cpp starts and prints segments
+ * @returns whisper.cpp's output
+ */
+export async function runWhisper(run: WhisperRun, handlers: WhisperRunHandlers = {}): Promise<string> {
+  const executable = findWhisperExecutable();
+  if (!executable) {
+    throw new Error('whisper-cli executable not found: whisper.cpp must be built first (see prepareWhisper)');
+  }
+  const modelPath = getModelPath(run.modelName);
+  if (!modelPath) {
+    throw new Error(`Model ${run.modelName} is not supported by nodejs-whisper`);
+  }
+  if (!(await fs.pathExists(modelPath))) {
+    throw new Error(`Model ${run.modelName} is not downloaded: it must be prepared first (see prepareWhisper)`);
+  }
+
+  const args = buildWhisperArgs(run, modelPath);
+  const durationMs = await readWavDuration(run.audioPath);
+
+  return new Promise<string>((resolve, reject) => {
+    // No shell, so paths are passed as they are. A process group of its own,
+    // so Ctrl+C in a terminal leaves it to finish when stopping gracefully.
+    const child = spawn(executable, args, {
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      windowsHide: true,
+    });
+    const pid = child.pid;
+    if (pid !== undefined) {
+      trackProcess(pid);
+      handlers.onStart?.(pid);
+    }
+
+    let stdout = '';
+    let stderr = '';
+    let partialLine = '';
+    let lastPercent = -1;
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (data: string) => {
+      stdout += data;
+      const lines = (partialLine + data).split(/\r?\n/);
+      partialLine = lines.pop()!;
+
+      for (const segment of parseTranscript(lines.join('\n'))) {
+        handlers.onSegment?.(segment);
+        const percent = durationMs > 0 ? Math.min(100, Math.floor(segment.end / durationMs * 100)) : 0;
+        if (percent > lastPercent) {
+          lastPercent = percent;
+          handlers.onProgress?.(percent);
+        }
+      }
+    });
+
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (data: string) => {
+      stderr += data;
+    });
+
+    child.on('error', error => {
+      if (pid !== undefined) untrackProcess(pid);
+      reject(error);
+    });
+    child.on('close', code => {
+      if (pid !== undefined) untrackProcess(pid);
+      if (code !== 0) {
+        const lines = stderr.trim().split(/\r?\n/).slice(-ERROR_LINES).join('\n');
+        reject(new Error(lines || `whisper.cpp exited with code ${code}`));
+      } else if (stdout.includes('error:')) {
+        reject(new Error(`Error in whisper.cpp:\n${stdout}`));
+      } else if (!stdout) {
+        reject(new Error('Transcription failed or produced no output.'));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
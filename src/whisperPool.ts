@@ -0,0 +1,99 @@
+import { WhisperRun, WhisperRunHandlers, killWhisper, runWhisper } from './whisper';
+
+export interface WhisperJobOptions extends Pick<WhisperRunHandlers, 'onSegment' | 'onProgress'> {
+  timeoutMs?: number; // The run is killed and fails after this long; no limit if 0 or unset
+}
+
+// A limit on the whisper.cpp processes running at once, shared by the videos of a batch
+export interface WhisperPool {
+  readonly size: number;
+  /**
+   * Transcribe a file once fewer than size runs are going on
+   * @returns whisper.cpp's output
+   */
+  run(run: WhisperRun, options?: WhisperJobOptions): Promise<string>;
+  /**
+   * Stop the pool; runs still queued or going on fail
+   */
+  close(): Promise<void>;
+}
+
+interface Task {
+  run: WhisperRun;
+  options: WhisperJobOptions;
+  resolve: (transcript: string) => void;
+  reject: (error: Error) => void;
+  pid: number | null;
+  timer: NodeJS.Timeout | null;
+  error: Error | null; // Why the pool killed the run
+}
+
+/**
+ * Create a pool that runs whisper.cpp for up to size files at once and queues
+ * the rest. Every run is a whisper.cpp process of its own, which loads the
+ * model again: whisper-cli cannot keep it loaded between files. The model must
+ * be prepared with prepareWhisper before a run uses it. A run that exceeds its
+ * timeout has its process killed and fails.
+ * @param size Number of whisper.cpp processes run at once
+ */
+export function createWhisperPool(size: number): WhisperPool {
+  const queue: Task[] = [];
+  const running = new Set<Task>();
+  let closed = false;
+
+  const kill = (task: Task, error: Error) => {
+    task.error = error;
+    if (task.pid !== null) killWhisper(task.pid);
+  };
+
+  const dispatch = () => {
+    while (running.size < size && queue.length > 0) {
+      const task = queue.shift()!;
+      running.add(task);
+
+      if (task.options.timeoutMs) {
+        const minutes = Math.round(task.options.timeoutMs / 60_000 * 10) / 10;
+        task.timer = setTimeout(() => kill(task, new Error(`Transcription timed out after ${minutes} minute(s)`)), task.options.timeoutMs);
+      }
+
+      runWhisper(task.run, {
+        onStart: pid => {
+          task.pid = pid;
+          // Closed while whisper.cpp was starting
+          if (task.error) killWhisper(pid);
+        },
+        onSegment: task.options.onSegment,
+        onProgress: task.options.onProgress,
+      })
+        .then(transcript => (task.error ? task.reject(task.error) : task.resolve(transcript)))
+        .catch(error => task.reject(task.error || error))
+        .finally(() => {
+          if (task.timer) clearTimeout(task.timer);
+          running.delete(task);
+          dispatch();
+        });
+    }
+  };
+
+  return {
+    size,
+
+    run(run, options = {}) {
+      return new Promise<string>((resolve, reject) => {
+        if (closed) {
+          reject(new Error('The whisper.cpp pool is closed'));
+          return;
+        }
+        queue.push({ run, options, resolve, reject, pid: null, timer: null, error: null });
+        dispatch();
+      });
+    },
+
+    async close() {
+      closed = true;
+      const error = new Error('The whisper.cpp pool is closed');
+      queue.splice(0).forEach(task => task.reject(error));
+      running.forEach(task => kill(task, error));
+    },
+  };
+}